@@ -10,6 +10,8 @@ import Dashboard from "./pages/Dashboard";
 import ManagerDashboard from "./pages/ManagerDashboard";
 import SubmitComplaint from "./pages/SubmitComplaint";
 import ComplaintDetail from "./pages/ComplaintDetail";
+import AdminSettings from "./pages/AdminSettings";
+import Macros from "./pages/Macros";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -28,6 +30,8 @@ const App = () => (
             <Route path="/manager/dashboard" element={<ManagerDashboard />} />
             <Route path="/submit" element={<SubmitComplaint />} />
             <Route path="/complaint/:id" element={<ComplaintDetail />} />
+            <Route path="/admin/settings" element={<AdminSettings />} />
+            <Route path="/manager/macros" element={<Macros />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
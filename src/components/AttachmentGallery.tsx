@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from '@/components/ui/carousel';
+import { Download, FileText } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  MessageAttachment,
+  formatFileSize,
+  isImageAttachment,
+  isPdfAttachment,
+} from '@/lib/attachments';
+import { useSignedUrls } from '@/hooks/use-signed-urls';
+
+export interface GalleryAttachment extends MessageAttachment {
+  uploader: string;
+  created_at: string;
+}
+
+interface AttachmentGalleryProps {
+  attachments: GalleryAttachment[];
+}
+
+const downloadAttachment = async (attachment: GalleryAttachment) => {
+  const { data, error } = await supabase.storage
+    .from('complaint-attachments')
+    .createSignedUrl(attachment.file_path, 60, { download: attachment.file_name });
+
+  if (error || !data) {
+    toast.error(`Failed to download ${attachment.file_name}`);
+    return;
+  }
+
+  const link = document.createElement('a');
+  link.href = data.signedUrl;
+  link.click();
+};
+
+const AttachmentMeta = ({ attachment }: { attachment: GalleryAttachment }) => (
+  <p className="truncate text-xs text-muted-foreground">
+    {attachment.uploader} · {formatFileSize(attachment.file_size)} · {new Date(attachment.created_at).toLocaleString()}
+  </p>
+);
+
+// Every file on a complaint, with a lightbox for images and PDFs
+export const AttachmentGallery = ({ attachments }: AttachmentGalleryProps) => {
+  const urls = useSignedUrls(attachments.map(a => a.file_path));
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+  if (attachments.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Attachments ({attachments.length})</CardTitle>
+        <CardDescription>Files shared on this complaint</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 md:grid-cols-4">
+          {attachments.map((attachment, index) => (
+            <div key={attachment.id} className="space-y-1">
+              <button
+                type="button"
+                onClick={() => setOpenIndex(index)}
+                title={attachment.file_name}
+                className="block aspect-square w-full overflow-hidden rounded-md border bg-muted"
+              >
+                {isImageAttachment(attachment) && urls[attachment.file_path] ? (
+                  <img
+                    src={urls[attachment.file_path]}
+                    alt={attachment.file_name}
+                    className="h-full w-full object-cover"
+                  />
+                ) : (
+                  <div className="flex h-full w-full items-center justify-center">
+                    <FileText className="h-10 w-10 text-muted-foreground" />
+                  </div>
+                )}
+              </button>
+              <p className="truncate text-sm font-medium">{attachment.file_name}</p>
+              <AttachmentMeta attachment={attachment} />
+            </div>
+          ))}
+        </div>
+      </CardContent>
+
+      <Dialog open={openIndex !== null} onOpenChange={(open) => !open && setOpenIndex(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogTitle className="sr-only">Attachments</DialogTitle>
+          <Carousel opts={{ startIndex: openIndex ?? 0 }} className="mx-12">
+            <CarouselContent>
+              {attachments.map((attachment) => {
+                const url = urls[attachment.file_path];
+                return (
+                  <CarouselItem key={attachment.id} className="space-y-3">
+                    <div className="flex h-[70vh] items-center justify-center rounded-md bg-muted">
+                      {url && isImageAttachment(attachment) ? (
+                        <img src={url} alt={attachment.file_name} className="max-h-full max-w-full object-contain" />
+                      ) : url && isPdfAttachment(attachment) ? (
+                        // Sandboxed so the document cannot navigate the app, open windows or submit forms
+                        <iframe
+                          src={url}
+                          title={attachment.file_name}
+                          sandbox="allow-scripts allow-same-origin"
+                          className="h-full w-full rounded-md"
+                        />
+                      ) : (
+                        <div className="flex flex-col items-center gap-2 text-muted-foreground">
+                          <FileText className="h-16 w-16" />
+                          <span className="text-sm">No preview available</span>
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="min-w-0">
+                        <p className="truncate font-medium">{attachment.file_name}</p>
+                        <AttachmentMeta attachment={attachment} />
+                      </div>
+                      <Button variant="outline" size="sm" onClick={() => downloadAttachment(attachment)}>
+                        <Download className="mr-2 h-4 w-4" />
+                        Download
+                      </Button>
+                    </div>
+                  </CarouselItem>
+                );
+              })}
+            </CarouselContent>
+            <CarouselPrevious />
+            <CarouselNext />
+          </Carousel>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,58 @@
+import { Database } from '@/integrations/supabase/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { StatusBadge } from '@/components/StatusBadge';
+import { SupportButton } from '@/components/SupportButton';
+
+export type ComplaintSummary = Database['public']['Functions']['get_complaint_summary']['Returns'][number];
+
+interface ComplaintSummaryCardProps {
+  summary: ComplaintSummary;
+  onSupportChange: (isSupporter: boolean) => void;
+}
+
+// What a student who is not the reporter may see of a complaint: no description, reporter or conversation
+export const ComplaintSummaryCard = ({ summary, onSupportChange }: ComplaintSummaryCardProps) => (
+  <Card>
+    <CardHeader>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <CardTitle className="text-2xl">{summary.title}</CardTitle>
+          <CardDescription className="mt-2">
+            Reported on {new Date(summary.created_at).toLocaleString()} · Last updated {new Date(summary.updated_at).toLocaleString()}
+          </CardDescription>
+        </div>
+        <StatusBadge status={summary.status} />
+      </div>
+    </CardHeader>
+    <CardContent className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-3">
+        <div>
+          <p className="text-sm font-medium text-muted-foreground">Category</p>
+          <p className="capitalize">{summary.category.replace('_', ' ')}</p>
+        </div>
+        <div>
+          <p className="text-sm font-medium text-muted-foreground">Location</p>
+          <p>{summary.hub} {summary.room ? `- ${summary.room}` : ''}</p>
+        </div>
+        <div>
+          <p className="text-sm font-medium text-muted-foreground">Students Affected</p>
+          <p>{summary.supporter_count + 1}</p>
+        </div>
+      </div>
+      <div className="flex items-center justify-between gap-4 rounded-lg border p-4">
+        <p className="text-sm text-muted-foreground">
+          {summary.is_supporter
+            ? "You're following this complaint and will see its status on your dashboard."
+            : 'Affected by this too? Add your support so the team knows how many students it impacts.'}
+        </p>
+        {(summary.is_supporter || !['resolved', 'closed'].includes(summary.status)) && (
+          <SupportButton
+            complaintId={summary.id}
+            isSupporter={summary.is_supporter}
+            onChange={onSupportChange}
+          />
+        )}
+      </div>
+    </CardContent>
+  </Card>
+);
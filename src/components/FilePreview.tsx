@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { FileText } from 'lucide-react';
+
+// Thumbnail of a local file before it is uploaded
+export const FilePreview = ({ file }: { file: File }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file.type.startsWith('image/')) return;
+
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  return url ? (
+    <img src={url} alt={file.name} className="h-12 w-12 shrink-0 rounded object-cover" />
+  ) : (
+    <div className="flex h-12 w-12 shrink-0 items-center justify-center rounded bg-muted">
+      <FileText className="h-5 w-5 text-muted-foreground" />
+    </div>
+  );
+};
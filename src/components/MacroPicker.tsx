@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { MessageSquareText } from 'lucide-react';
+import { toast } from 'sonner';
+import { ResponseMacro, fetchMacros } from '@/lib/macros';
+
+interface MacroPickerProps {
+  onSelect: (macro: ResponseMacro) => void;
+  disabled?: boolean;
+}
+
+export const MacroPicker = ({ onSelect, disabled }: MacroPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [macros, setMacros] = useState<ResponseMacro[] | null>(null);
+
+  const handleOpenChange = async (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen && !macros) {
+      try {
+        setMacros(await fetchMacros());
+      } catch (error) {
+        toast.error('Failed to load macros');
+      }
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled}>
+          <MessageSquareText className="mr-2 h-4 w-4" />
+          Macros
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search macros..." />
+          <CommandList>
+            <CommandEmpty>{macros ? 'No macros found.' : 'Loading...'}</CommandEmpty>
+            <CommandGroup>
+              {(macros || []).map((macro) => (
+                <CommandItem
+                  key={macro.id}
+                  value={`${macro.name} ${macro.body}`}
+                  onSelect={() => {
+                    onSelect(macro);
+                    setOpen(false);
+                  }}
+                >
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium">{macro.name}</p>
+                    <p className="truncate text-xs text-muted-foreground">{macro.body}</p>
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+        <div className="border-t p-2">
+          <Button variant="ghost" size="sm" className="w-full" asChild>
+            <Link to="/manager/macros">Manage macros</Link>
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,59 @@
+import { Fragment } from 'react';
+import { cn } from '@/lib/utils';
+import { MarkdownInline, parseMarkdown } from '@/lib/markdown';
+
+const renderInline = (nodes: MarkdownInline[]) =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'code':
+        return <code key={index} className="rounded bg-black/10 px-1 font-mono text-[0.85em]">{node.text}</code>;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="underline underline-offset-2"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+      default:
+        return <Fragment key={index}>{node.text}</Fragment>;
+    }
+  });
+
+export const Markdown = ({ source, className }: { source: string; className?: string }) => (
+  <div className={cn('space-y-2 text-sm break-words', className)}>
+    {parseMarkdown(source).map((block, index) => {
+      if (block.type === 'code') {
+        return (
+          <pre key={index} className="overflow-x-auto rounded-md bg-black/10 p-2 font-mono text-xs">
+            <code>{block.text}</code>
+          </pre>
+        );
+      }
+      if (block.type === 'list') {
+        const items = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>);
+        return block.ordered ? (
+          <ol key={index} start={block.start} className="list-decimal space-y-1 pl-5">{items}</ol>
+        ) : (
+          <ul key={index} className="list-disc space-y-1 pl-5">{items}</ul>
+        );
+      }
+      return (
+        <p key={index}>
+          {block.lines.map((line, lineIndex) => (
+            <Fragment key={lineIndex}>
+              {lineIndex > 0 && <br />}
+              {renderInline(line)}
+            </Fragment>
+          ))}
+        </p>
+      );
+    })}
+  </div>
+);
@@ -0,0 +1,45 @@
+import { forwardRef, useState } from 'react';
+import { Textarea, TextareaProps } from '@/components/ui/textarea';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Markdown } from '@/components/Markdown';
+import { cn } from '@/lib/utils';
+
+interface MarkdownTextareaProps extends TextareaProps {
+  value: string;
+}
+
+// Textarea with a Write/Preview toggle. The textarea stays mounted while previewing so
+// form submission and focus handling keep working.
+export const MarkdownTextarea = forwardRef<HTMLTextAreaElement, MarkdownTextareaProps>(
+  ({ value, className, ...props }, ref) => {
+    const [mode, setMode] = useState<'write' | 'preview'>('write');
+
+    return (
+      <div className="w-full space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={mode}
+            onValueChange={(next) => next && setMode(next as 'write' | 'preview')}
+          >
+            <ToggleGroupItem value="write" className="h-7 px-2 text-xs">Write</ToggleGroupItem>
+            <ToggleGroupItem value="preview" className="h-7 px-2 text-xs">Preview</ToggleGroupItem>
+          </ToggleGroup>
+          <span className="text-xs text-muted-foreground">
+            Markdown: **bold**, `code`, ``` blocks, - lists, [links](https://…)
+          </span>
+        </div>
+        <Textarea ref={ref} value={value} className={cn(mode === 'preview' && 'hidden', className)} {...props} />
+        {mode === 'preview' && (
+          <div className="min-h-[80px] rounded-md border px-3 py-2">
+            {value.trim()
+              ? <Markdown source={value} />
+              : <p className="text-sm text-muted-foreground">Nothing to preview</p>}
+          </div>
+        )}
+      </div>
+    );
+  }
+);
+MarkdownTextarea.displayName = 'MarkdownTextarea';
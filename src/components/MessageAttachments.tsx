@@ -0,0 +1,58 @@
+import { AlertCircle, FileText, Loader2 } from 'lucide-react';
+import { MessageAttachment, isImageAttachment } from '@/lib/attachments';
+import { useSignedUrls } from '@/hooks/use-signed-urls';
+
+interface MessageAttachmentsProps {
+  attachments: MessageAttachment[];
+  // Files still uploading, or waiting for a retry once the send has failed
+  pendingFiles?: File[];
+  failed?: boolean;
+}
+
+export const MessageAttachments = ({ attachments, pendingFiles = [], failed = false }: MessageAttachmentsProps) => {
+  const urls = useSignedUrls(attachments.map(a => a.file_path));
+
+  if (attachments.length === 0 && pendingFiles.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-2 flex flex-wrap gap-2">
+      {attachments.map((attachment) => (
+        <a
+          key={attachment.id}
+          href={urls[attachment.file_path]}
+          target="_blank"
+          rel="noopener noreferrer"
+          title={attachment.file_name}
+          className="block overflow-hidden rounded-md border bg-background text-foreground"
+        >
+          {isImageAttachment(attachment) && urls[attachment.file_path] ? (
+            <img
+              src={urls[attachment.file_path]}
+              alt={attachment.file_name}
+              className="h-20 w-20 object-cover"
+            />
+          ) : (
+            <div className="flex h-20 w-20 flex-col items-center justify-center gap-1 p-1">
+              <FileText className="h-6 w-6 text-muted-foreground" />
+              <span className="w-full truncate text-center text-[10px]">{attachment.file_name}</span>
+            </div>
+          )}
+        </a>
+      ))}
+      {pendingFiles.map((file, index) => (
+        <div
+          key={`${file.name}-${index}`}
+          title={file.name}
+          className="flex h-20 w-20 flex-col items-center justify-center gap-1 rounded-md border bg-background p-1 text-foreground"
+        >
+          {failed
+            ? <AlertCircle className="h-5 w-5 text-destructive" />
+            : <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />}
+          <span className="w-full truncate text-center text-[10px]">{file.name}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Markdown } from '@/components/Markdown';
+import { toast } from 'sonner';
+
+interface Revision {
+  id: string;
+  body: string;
+  created_at: string;
+}
+
+interface MessageRevisionsProps {
+  messageId: string;
+  label: string;
+}
+
+// Earlier versions of an edited or retracted message; only managers can read them
+export const MessageRevisions = ({ messageId, label }: MessageRevisionsProps) => {
+  const [revisions, setRevisions] = useState<Revision[] | null>(null);
+
+  const handleOpenChange = async (open: boolean) => {
+    if (!open) return;
+
+    const { data, error } = await supabase
+      .from('message_revisions')
+      .select('id, body, created_at')
+      .eq('message_id', messageId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      toast.error('Failed to load earlier versions');
+      return;
+    }
+    setRevisions(data || []);
+  };
+
+  return (
+    <Popover onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button type="button" className="underline decoration-dotted underline-offset-2">
+          {label}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 max-h-72 overflow-y-auto text-sm" align="end">
+        <p className="mb-2 font-medium">Earlier versions</p>
+        {revisions === null ? (
+          <p className="text-muted-foreground">Loading...</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-muted-foreground">No earlier versions recorded.</p>
+        ) : (
+          <div className="space-y-3">
+            {revisions.map(revision => (
+              <div key={revision.id} className="border-l-2 pl-2">
+                <p className="text-xs text-muted-foreground">
+                  Replaced {new Date(revision.created_at).toLocaleString()}
+                </p>
+                <Markdown source={revision.body} />
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
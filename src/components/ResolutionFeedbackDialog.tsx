@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Star } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+
+interface ResolutionFeedbackDialogProps {
+  complaint: {
+    id: string;
+    title: string;
+  } | null;
+  // Rejecting reopens the complaint, which is only possible within the reopen window
+  canReject: boolean;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmitted: () => void;
+}
+
+export const ResolutionFeedbackDialog = ({
+  complaint,
+  canReject,
+  open,
+  onOpenChange,
+  onSubmitted,
+}: ResolutionFeedbackDialogProps) => {
+  const [confirmed, setConfirmed] = useState(true);
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const reset = () => {
+    setConfirmed(true);
+    setRating(0);
+    setComment('');
+  };
+
+  const handleSubmit = async () => {
+    if (!complaint) return;
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('submit_resolution_feedback', {
+        _complaint_id: complaint.id,
+        _confirmed: confirmed,
+        _rating: rating,
+        _comment: comment,
+      });
+
+      if (error) throw error;
+
+      toast.success(confirmed ? 'Thanks! Your complaint is now closed.' : 'Your complaint has been reopened');
+      reset();
+      onOpenChange(false);
+      onSubmitted();
+    } catch (error) {
+      toast.error(error.message || 'Failed to submit feedback');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Was your issue fixed?</DialogTitle>
+          <DialogDescription>{complaint?.title}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              type="button"
+              variant={confirmed ? 'default' : 'outline'}
+              onClick={() => setConfirmed(true)}
+            >
+              Yes, it's fixed
+            </Button>
+            <Button
+              type="button"
+              variant={!confirmed ? 'default' : 'outline'}
+              onClick={() => setConfirmed(false)}
+              disabled={!canReject}
+            >
+              No, still an issue
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label>How satisfied are you with how this was handled? *</Label>
+            <div className="flex gap-1">
+              {[1, 2, 3, 4, 5].map(value => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setRating(value)}
+                  aria-label={`${value} star${value > 1 ? 's' : ''}`}
+                >
+                  <Star
+                    className={cn(
+                      'h-7 w-7',
+                      value <= rating ? 'fill-warning text-warning' : 'text-muted-foreground'
+                    )}
+                  />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="feedback-comment">
+              {confirmed ? 'Comment (Optional)' : 'What is still not working? *'}
+            </Label>
+            <Textarea
+              id="feedback-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={3}
+              disabled={submitting}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Later
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={submitting || rating === 0 || (!confirmed && !comment.trim())}
+          >
+            {submitting ? 'Submitting...' : confirmed ? 'Confirm & Close' : 'Reopen Complaint'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,97 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { StatusBadge } from '@/components/StatusBadge';
+import { SupportButton } from '@/components/SupportButton';
+import { Badge } from '@/components/ui/badge';
+import { useDebounce } from '@/hooks/use-debounce';
+import { Copy } from 'lucide-react';
+
+type SimilarComplaint = Database['public']['Functions']['find_similar_complaints']['Returns'][number];
+
+interface SimilarComplaintsProps {
+  title: string;
+  description: string;
+  hub: string;
+  room: string;
+}
+
+export const SimilarComplaints = ({ title, description, hub, room }: SimilarComplaintsProps) => {
+  const [matches, setMatches] = useState<SimilarComplaint[]>([]);
+  const draft = useDebounce({ title, description, hub, room }, 500);
+
+  useEffect(() => {
+    // Wait for enough text to compare against
+    if (draft.title.trim().length < 5 || draft.hub.trim().length < 2) {
+      setMatches([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    supabase
+      .rpc('find_similar_complaints', {
+        _title: draft.title.trim(),
+        _description: draft.description.trim(),
+        _hub: draft.hub.trim(),
+        _room: draft.room.trim() || undefined,
+      })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error('Failed to look up similar complaints:', error);
+          return;
+        }
+        setMatches(data || []);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [draft.title, draft.description, draft.hub, draft.room]);
+
+  if (matches.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 rounded-lg border border-warning p-4">
+      <div className="flex items-center gap-2">
+        <Copy className="h-4 w-4 text-warning" />
+        <p className="text-sm font-medium">Similar open complaints in {hub.trim()}</p>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Someone may already have reported this. If one of these is your issue, say "Me too" to follow it
+        instead of submitting a new complaint.
+      </p>
+      <div className="space-y-2">
+        {matches.map((match) => (
+          <div key={match.id} className="flex items-center justify-between gap-2 rounded-md border p-2">
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">{match.title}</p>
+              <p className="text-xs text-muted-foreground capitalize">
+                {match.category}{match.room ? ` · ${match.room}` : ''} · {new Date(match.created_at).toLocaleDateString()}
+                {match.supporter_count > 0 && ` · ${match.supporter_count} affected`}
+              </p>
+            </div>
+            <div className="flex shrink-0 items-center gap-2">
+              <StatusBadge status={match.status} />
+              {match.is_own ? (
+                <Badge variant="outline">Yours</Badge>
+              ) : (
+                <SupportButton
+                  complaintId={match.id}
+                  isSupporter={match.is_supporter}
+                  onChange={(isSupporter) => setMatches(prev => prev.map(m => m.id === match.id
+                    ? { ...m, is_supporter: isSupporter, supporter_count: m.supporter_count + (isSupporter ? 1 : -1) }
+                    : m
+                  ))}
+                />
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import { Badge } from '@/components/ui/badge';
+import { Clock } from 'lucide-react';
+import { useNow } from '@/hooks/use-now';
+import { cn } from '@/lib/utils';
+import { formatSlaDuration, getSlaRemaining, getSlaState } from '@/lib/sla';
+
+interface SlaBadgeProps {
+  complaint: {
+    status: string;
+    created_at: string;
+    sla_due_at: string | null;
+  };
+  className?: string;
+}
+
+export const SlaBadge = ({ complaint, className }: SlaBadgeProps) => {
+  const now = useNow();
+  const state = getSlaState(complaint, now);
+  const remaining = getSlaRemaining(complaint, now);
+
+  if (state === 'none' || state === 'stopped' || remaining === null) {
+    return null;
+  }
+
+  const config = {
+    on_track: { className: 'bg-success text-success-foreground', label: `${formatSlaDuration(remaining)} left` },
+    at_risk: { className: 'bg-warning text-warning-foreground', label: `At risk · ${formatSlaDuration(remaining)} left` },
+    breached: { className: 'bg-destructive text-destructive-foreground', label: `Breached ${formatSlaDuration(remaining)} ago` },
+  }[state];
+
+  return (
+    <Badge
+      className={cn(config.className, className)}
+      title={`SLA due ${new Date(complaint.sla_due_at!).toLocaleString()}`}
+    >
+      <Clock className="mr-1 h-3 w-3" />
+      {config.label}
+    </Badge>
+  );
+};
@@ -0,0 +1,17 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { STATUS_LABELS } from '@/lib/complaint-status';
+
+const STATUS_CLASSES: Record<string, string> = {
+  new: 'bg-status-new text-white',
+  acknowledged: 'bg-status-acknowledged text-white',
+  in_progress: 'bg-status-in-progress text-white',
+  resolved: 'bg-status-resolved text-white',
+  closed: 'bg-status-closed text-white',
+};
+
+export const StatusBadge = ({ status, className }: { status: string; className?: string }) => (
+  <Badge className={cn(STATUS_CLASSES[status] || STATUS_CLASSES.new, className)}>
+    {STATUS_LABELS[status] || status}
+  </Badge>
+);
@@ -0,0 +1,59 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+import { Check, ThumbsUp } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface SupportButtonProps {
+  complaintId: string;
+  isSupporter: boolean;
+  onChange: (isSupporter: boolean) => void;
+  size?: 'sm' | 'default';
+}
+
+export const SupportButton = ({ complaintId, isSupporter, onChange, size = 'sm' }: SupportButtonProps) => {
+  const { user } = useAuth();
+  const [saving, setSaving] = useState(false);
+
+  const toggleSupport = async () => {
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      const { error } = isSupporter
+        ? await supabase
+            .from('complaint_supporters')
+            .delete()
+            .eq('complaint_id', complaintId)
+            .eq('user_id', user.id)
+        : await supabase
+            .from('complaint_supporters')
+            .insert({ complaint_id: complaintId, user_id: user.id });
+
+      if (error) throw error;
+
+      toast.success(isSupporter
+        ? 'You no longer support this complaint'
+        : "Thanks! You'll see status updates for this complaint on your dashboard.");
+      onChange(!isSupporter);
+    } catch (error) {
+      toast.error(error.message || 'Failed to update support');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Button
+      type="button"
+      variant={isSupporter ? 'secondary' : 'outline'}
+      size={size}
+      onClick={toggleSupport}
+      disabled={saving}
+    >
+      {isSupporter ? <Check className="mr-2 h-4 w-4" /> : <ThumbsUp className="mr-2 h-4 w-4" />}
+      {isSupporter ? 'Supporting' : 'Me too'}
+    </Button>
+  );
+};
@@ -0,0 +1,58 @@
+import { ArrowRightLeft, Flag, Paperclip, Phone, RefreshCw, Video } from 'lucide-react';
+import { STATUS_LABELS } from '@/lib/complaint-status';
+import { AttachmentEntry, CallEntry, HistoryEntry } from '@/lib/timeline';
+
+interface TimelineEventProps {
+  item:
+    | { kind: 'history'; created_at: string; entry: HistoryEntry }
+    | { kind: 'attachment'; created_at: string; attachment: AttachmentEntry }
+    | { kind: 'call'; created_at: string; call: CallEntry };
+  // Names of managers referenced by assignment changes, keyed by profile id
+  profileNames: Record<string, string>;
+}
+
+const describeHistory = (entry: HistoryEntry, profileNames: Record<string, string>) => {
+  const actor = entry.by_reporter ? 'Reporter' : entry.actor_id ? entry.profiles?.name || 'Unknown' : 'System';
+  const managerName = (id: string | null) => (id && profileNames[id]) || 'Unknown';
+
+  switch (entry.field) {
+    case 'status':
+      return `${actor} changed status from ${STATUS_LABELS[entry.old_value ?? ''] ?? entry.old_value} to ${STATUS_LABELS[entry.new_value ?? ''] ?? entry.new_value}`;
+    case 'priority':
+      return `${actor} changed priority from ${entry.old_value} to ${entry.new_value}`;
+    case 'manager_id':
+      if (!entry.new_value) return `${actor} removed the assignment from ${managerName(entry.old_value)}`;
+      if (!entry.old_value) return `${actor} assigned this to ${managerName(entry.new_value)}`;
+      return `${actor} reassigned this from ${managerName(entry.old_value)} to ${managerName(entry.new_value)}`;
+    default:
+      return `${actor} updated ${entry.field}`;
+  }
+};
+
+export const TimelineEvent = ({ item, profileNames }: TimelineEventProps) => {
+  let icon = <RefreshCw className="h-3 w-3" />;
+  let text = '';
+
+  if (item.kind === 'history') {
+    if (item.entry.field === 'manager_id') icon = <ArrowRightLeft className="h-3 w-3" />;
+    if (item.entry.field === 'priority') icon = <Flag className="h-3 w-3" />;
+    text = describeHistory(item.entry, profileNames);
+  } else if (item.kind === 'attachment') {
+    icon = <Paperclip className="h-3 w-3" />;
+    text = `${item.attachment.profiles?.name || 'Anonymous'} attached ${item.attachment.file_name}`;
+  } else {
+    const { call } = item;
+    icon = call.type === 'video' ? <Video className="h-3 w-3" /> : <Phone className="h-3 w-3" />;
+    text = `${call.caller?.name || 'Unknown'} started a ${call.type} call with ${call.callee?.name || 'Unknown'} (${call.status})`;
+  }
+
+  return (
+    <div className="flex justify-center">
+      <div className="flex items-center gap-2 rounded-full border bg-background px-3 py-1 text-xs text-muted-foreground">
+        {icon}
+        <span>{text}</span>
+        <span className="opacity-70">· {new Date(item.created_at).toLocaleString()}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import { Progress } from '@/components/ui/progress';
+import { AlertCircle, CheckCircle2 } from 'lucide-react';
+import { FilePreview } from '@/components/FilePreview';
+import { formatFileSize } from '@/lib/attachments';
+
+export interface FileUploadState {
+  file: File;
+  progress: number;
+  // 'checking' while the server scans the stored file; 'rejected' when the scan failed it
+  status: 'pending' | 'uploading' | 'checking' | 'done' | 'failed' | 'rejected';
+}
+
+const STATUS_TEXT: Record<FileUploadState['status'], string> = {
+  pending: 'Waiting...',
+  uploading: 'Uploading...',
+  checking: 'Checking...',
+  done: 'Uploaded',
+  failed: 'Failed',
+  rejected: 'Rejected',
+};
+
+export const UploadProgressList = ({ uploads }: { uploads: FileUploadState[] }) => (
+  <div className="space-y-2">
+    {uploads.map((upload, index) => (
+      <div key={index} className="flex items-center gap-3 rounded-md border p-2">
+        <FilePreview file={upload.file} />
+        <div className="min-w-0 flex-1 space-y-1">
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <span className="truncate">{upload.file.name}</span>
+            <span className={`flex shrink-0 items-center gap-1 text-xs ${
+              upload.status === 'failed' || upload.status === 'rejected' ? 'text-destructive' : 'text-muted-foreground'
+            }`}>
+              {upload.status === 'done' && <CheckCircle2 className="h-3 w-3 text-success" />}
+              {(upload.status === 'failed' || upload.status === 'rejected') && <AlertCircle className="h-3 w-3" />}
+              {STATUS_TEXT[upload.status]}
+            </span>
+          </div>
+          <Progress value={upload.progress * 100} className="h-1.5" />
+          <p className="text-xs text-muted-foreground">{formatFileSize(upload.file.size)}</p>
+        </div>
+      </div>
+    ))}
+  </div>
+);
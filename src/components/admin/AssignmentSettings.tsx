@@ -0,0 +1,266 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Constants, Tables } from '@/integrations/supabase/types';
+import { fetchSetting, saveSetting } from '@/lib/settings';
+
+type AssignmentRule = Tables<'assignment_rules'>;
+
+const STRATEGIES: Record<string, { label: string; description: string }> = {
+  manual: {
+    label: 'Manual',
+    description: 'New complaints stay unassigned until a manager assigns them.',
+  },
+  round_robin: {
+    label: 'Round Robin',
+    description: 'Available managers take turns receiving new complaints.',
+  },
+  least_loaded: {
+    label: 'Least Open Load',
+    description: 'New complaints go to the available manager with the fewest open complaints.',
+  },
+  rules: {
+    label: 'Rule-Based',
+    description: 'The first matching rule below decides. Complaints no rule matches go to the least loaded manager.',
+  },
+};
+
+const ANY = 'any';
+
+interface Manager {
+  id: string;
+  name: string;
+  is_available: boolean;
+}
+
+export const AssignmentSettings = () => {
+  const [strategy, setStrategy] = useState('manual');
+  const [rules, setRules] = useState<AssignmentRule[]>([]);
+  const [managers, setManagers] = useState<Manager[]>([]);
+
+  // New rule form
+  const [newHub, setNewHub] = useState('');
+  const [newCategory, setNewCategory] = useState(ANY);
+  const [newManagerId, setNewManagerId] = useState('');
+
+  useEffect(() => {
+    fetchSetting('assignment_strategy', 'manual').then(setStrategy);
+    fetchRules();
+    fetchManagers();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('assignment_rules')
+        .select('*')
+        .order('position')
+        .order('created_at');
+
+      if (error) throw error;
+      setRules(data || []);
+    } catch (error) {
+      toast.error('Failed to load assignment rules');
+    }
+  };
+
+  const fetchManagers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, name, is_available')
+        .eq('role', 'manager')
+        .order('name');
+
+      if (error) throw error;
+      setManagers(data || []);
+    } catch (error) {
+      console.error('Failed to load managers:', error);
+    }
+  };
+
+  const updateStrategy = async (value: string) => {
+    try {
+      await saveSetting('assignment_strategy', value);
+      setStrategy(value);
+      toast.success('Assignment strategy updated');
+    } catch (error) {
+      toast.error('Failed to update assignment strategy');
+    }
+  };
+
+  const addRule = async () => {
+    if (!newManagerId) {
+      toast.error('Choose a manager for the rule');
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('assignment_rules')
+        .insert({
+          hub: newHub.trim() || null,
+          category: newCategory === ANY ? null : newCategory as AssignmentRule['category'],
+          manager_id: newManagerId,
+          position: (rules[rules.length - 1]?.position ?? 0) + 1,
+        });
+
+      if (error) throw error;
+
+      toast.success('Assignment rule added');
+      setNewHub('');
+      setNewCategory(ANY);
+      setNewManagerId('');
+      fetchRules();
+    } catch (error) {
+      toast.error('Failed to add assignment rule');
+    }
+  };
+
+  const deleteRule = async (rule: AssignmentRule) => {
+    try {
+      const { error } = await supabase
+        .from('assignment_rules')
+        .delete()
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      fetchRules();
+    } catch (error) {
+      toast.error('Failed to remove assignment rule');
+    }
+  };
+
+  const manager = (id: string) => managers.find(m => m.id === id);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Assignment Strategy</CardTitle>
+          <CardDescription>How new complaints are assigned when they are submitted</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2 max-w-sm">
+            <Label>Strategy</Label>
+            <Select value={strategy} onValueChange={updateStrategy}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(STRATEGIES).map(([value, { label }]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">{STRATEGIES[strategy]?.description}</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Managers</Label>
+            <div className="flex flex-wrap gap-2">
+              {managers.map(m => (
+                <Badge key={m.id} variant={m.is_available ? 'default' : 'outline'}>
+                  {m.name}{m.is_available ? '' : ' (unavailable)'}
+                </Badge>
+              ))}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Managers set their own availability from the Manager Dashboard. Unavailable managers are skipped.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Assignment Rules</CardTitle>
+          <CardDescription>
+            Used by the rule-based strategy, top to bottom. Leave hub or category empty to match any.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-4">
+            <Input
+              placeholder="Hub (any)"
+              value={newHub}
+              onChange={(e) => setNewHub(e.target.value)}
+            />
+            <Select value={newCategory} onValueChange={setNewCategory}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any category</SelectItem>
+                {Constants.public.Enums.complaint_category.map(category => (
+                  <SelectItem key={category} value={category} className="capitalize">{category}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={newManagerId} onValueChange={setNewManagerId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Assign to" />
+              </SelectTrigger>
+              <SelectContent>
+                {managers.map(m => (
+                  <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={addRule}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Rule
+            </Button>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>#</TableHead>
+                <TableHead>Hub</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>Assign To</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule, index) => (
+                <TableRow key={rule.id}>
+                  <TableCell>{index + 1}</TableCell>
+                  <TableCell>{rule.hub || 'Any'}</TableCell>
+                  <TableCell className="capitalize">{rule.category || 'Any'}</TableCell>
+                  <TableCell>
+                    {manager(rule.manager_id)?.name || 'Unknown'}
+                    {manager(rule.manager_id) && !manager(rule.manager_id)!.is_available && (
+                      <span className="text-muted-foreground"> (unavailable)</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => deleteRule(rule)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {rules.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="py-8 text-center text-muted-foreground">
+                    No assignment rules yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,181 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Constants, Tables } from '@/integrations/supabase/types';
+
+type ManagerCoverage = Tables<'manager_coverage'>;
+
+const ANY = 'any';
+
+interface Manager {
+  id: string;
+  name: string;
+  role: string;
+}
+
+export const CoverageSettings = () => {
+  const [coverage, setCoverage] = useState<ManagerCoverage[]>([]);
+  const [managers, setManagers] = useState<Manager[]>([]);
+
+  // New coverage form
+  const [newManagerId, setNewManagerId] = useState('');
+  const [newHub, setNewHub] = useState('');
+  const [newCategory, setNewCategory] = useState(ANY);
+
+  useEffect(() => {
+    fetchCoverage();
+    fetchManagers();
+  }, []);
+
+  const fetchCoverage = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('manager_coverage')
+        .select('*')
+        .order('hub', { nullsFirst: true })
+        .order('category', { nullsFirst: true });
+
+      if (error) throw error;
+      setCoverage(data || []);
+    } catch (error) {
+      toast.error('Failed to load coverage');
+    }
+  };
+
+  const fetchManagers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, name, role')
+        .in('role', ['manager', 'admin'])
+        .order('name');
+
+      if (error) throw error;
+      setManagers(data || []);
+    } catch (error) {
+      console.error('Failed to load managers:', error);
+    }
+  };
+
+  const addCoverage = async () => {
+    if (!newManagerId) {
+      toast.error('Choose a manager');
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('manager_coverage')
+        .insert({
+          manager_id: newManagerId,
+          hub: newHub.trim() || null,
+          category: newCategory === ANY ? null : newCategory as ManagerCoverage['category'],
+        });
+
+      if (error) throw error;
+
+      setNewHub('');
+      setNewCategory(ANY);
+      fetchCoverage();
+    } catch (error) {
+      toast.error(error.code === '23505' ? 'This manager already covers that area' : 'Failed to add coverage');
+    }
+  };
+
+  const removeCoverage = async (entry: ManagerCoverage) => {
+    try {
+      const { error } = await supabase
+        .from('manager_coverage')
+        .delete()
+        .eq('id', entry.id);
+
+      if (error) throw error;
+      fetchCoverage();
+    } catch (error) {
+      toast.error('Failed to remove coverage');
+    }
+  };
+
+  const describe = (entry: ManagerCoverage) => {
+    if (!entry.hub && !entry.category) return 'Everything';
+    return [entry.hub || 'All hubs', entry.category || 'all categories'].join(' · ');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Manager Coverage</CardTitle>
+        <CardDescription>
+          The hubs and categories each manager handles. Coverage narrows the assignment dialog,
+          powers the "My area" filter, and is preferred by automatic assignment.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-4">
+          <Select value={newManagerId} onValueChange={setNewManagerId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select manager" />
+            </SelectTrigger>
+            <SelectContent>
+              {managers.map(manager => (
+                <SelectItem key={manager.id} value={manager.id}>{manager.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Hub (all hubs)"
+            value={newHub}
+            onChange={(e) => setNewHub(e.target.value)}
+          />
+          <Select value={newCategory} onValueChange={setNewCategory}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All categories</SelectItem>
+              {Constants.public.Enums.complaint_category.map(category => (
+                <SelectItem key={category} value={category} className="capitalize">{category}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={addCoverage}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Coverage
+          </Button>
+        </div>
+
+        <div className="space-y-4">
+          {managers.map(manager => {
+            const entries = coverage.filter(c => c.manager_id === manager.id);
+            return (
+              <div key={manager.id} className="rounded-lg border p-4">
+                <p className="font-medium mb-2">
+                  {manager.name} <span className="text-sm text-muted-foreground">({manager.role})</span>
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {entries.map(entry => (
+                    <Badge key={entry.id} variant="secondary" className="gap-1 capitalize">
+                      {describe(entry)}
+                      <button type="button" onClick={() => removeCoverage(entry)} aria-label="Remove coverage">
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                  {entries.length === 0 && (
+                    <span className="text-sm text-muted-foreground">No coverage yet</span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
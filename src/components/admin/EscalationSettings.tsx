@@ -0,0 +1,318 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Constants, Tables } from '@/integrations/supabase/types';
+
+type EscalationRule = Tables<'escalation_rules'>;
+type HubLead = Tables<'hub_leads'>;
+
+const CATEGORIES = Constants.public.Enums.complaint_category;
+
+const TARGET_LABELS: Record<EscalationRule['target'], string> = {
+  assigned_manager: 'Assigned Manager',
+  hub_lead: 'Hub Lead',
+  admin: 'Admin',
+};
+
+interface Manager {
+  id: string;
+  name: string;
+}
+
+export const EscalationSettings = () => {
+  const [category, setCategory] = useState<EscalationRule['category']>('facilities');
+  const [rules, setRules] = useState<EscalationRule[]>([]);
+  const [hubLeads, setHubLeads] = useState<HubLead[]>([]);
+  const [managers, setManagers] = useState<Manager[]>([]);
+
+  // New hub lead form
+  const [newHub, setNewHub] = useState('');
+  const [newLeadId, setNewLeadId] = useState('');
+
+  useEffect(() => {
+    fetchHubLeads();
+    fetchManagers();
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [category]);
+
+  const fetchRules = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('escalation_rules')
+        .select('*')
+        .eq('category', category)
+        .order('level');
+
+      if (error) throw error;
+      setRules(data || []);
+    } catch (error) {
+      toast.error('Failed to load escalation rules');
+    }
+  };
+
+  const fetchHubLeads = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('hub_leads')
+        .select('*')
+        .order('hub');
+
+      if (error) throw error;
+      setHubLeads(data || []);
+    } catch (error) {
+      toast.error('Failed to load hub leads');
+    }
+  };
+
+  const fetchManagers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, name')
+        .in('role', ['manager', 'admin']);
+
+      if (error) throw error;
+      setManagers(data || []);
+    } catch (error) {
+      console.error('Failed to load managers:', error);
+    }
+  };
+
+  const updateRule = async (rule: EscalationRule, changes: Partial<EscalationRule>) => {
+    if (changes.delay_hours !== undefined && (!Number.isInteger(changes.delay_hours) || changes.delay_hours < 0)) {
+      toast.error('Delay must be a whole number of hours');
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('escalation_rules')
+        .update(changes)
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      fetchRules();
+    } catch (error) {
+      toast.error('Failed to update escalation rule');
+    }
+  };
+
+  const addLevel = async () => {
+    const nextLevel = (rules[rules.length - 1]?.level ?? 0) + 1;
+
+    try {
+      const { error } = await supabase
+        .from('escalation_rules')
+        .insert({ category, level: nextLevel, target: 'admin', delay_hours: 24 });
+
+      if (error) throw error;
+      fetchRules();
+    } catch (error) {
+      toast.error('Failed to add escalation level');
+    }
+  };
+
+  const deleteRule = async (rule: EscalationRule) => {
+    try {
+      const { error } = await supabase
+        .from('escalation_rules')
+        .delete()
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      fetchRules();
+    } catch (error) {
+      toast.error('Failed to remove escalation level');
+    }
+  };
+
+  const addHubLead = async () => {
+    if (!newHub.trim() || !newLeadId) {
+      toast.error('Choose a hub and a lead');
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('hub_leads')
+        .insert({ hub: newHub.trim(), lead_id: newLeadId });
+
+      if (error) throw error;
+
+      toast.success('Hub lead added');
+      setNewHub('');
+      setNewLeadId('');
+      fetchHubLeads();
+    } catch (error) {
+      toast.error(error.code === '23505' ? 'This hub already has a lead' : 'Failed to add hub lead');
+    }
+  };
+
+  const deleteHubLead = async (hubLead: HubLead) => {
+    try {
+      const { error } = await supabase
+        .from('hub_leads')
+        .delete()
+        .eq('id', hubLead.id);
+
+      if (error) throw error;
+      fetchHubLeads();
+    } catch (error) {
+      toast.error('Failed to remove hub lead');
+    }
+  };
+
+  const managerName = (id: string) => managers.find(m => m.id === id)?.name || 'Unknown';
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Escalation Levels</CardTitle>
+          <CardDescription>
+            Overdue complaints move up one level at a time. The first delay counts from the SLA deadline,
+            each later delay from the previous escalation.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Select value={category} onValueChange={(value) => setCategory(value as EscalationRule['category'])}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CATEGORIES.map(c => (
+                  <SelectItem key={c} value={c} className="capitalize">{c}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={addLevel}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Level
+            </Button>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Level</TableHead>
+                <TableHead>Escalate To</TableHead>
+                <TableHead>Delay (hours)</TableHead>
+                <TableHead>Raise Priority</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule) => (
+                <TableRow key={rule.id}>
+                  <TableCell>{rule.level}</TableCell>
+                  <TableCell>
+                    <Select
+                      value={rule.target}
+                      onValueChange={(value) => updateRule(rule, { target: value as EscalationRule['target'] })}
+                    >
+                      <SelectTrigger className="w-[180px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Constants.public.Enums.escalation_target.map(target => (
+                          <SelectItem key={target} value={target}>{TARGET_LABELS[target]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={0}
+                      className="w-28"
+                      defaultValue={rule.delay_hours}
+                      onBlur={(e) => {
+                        const value = Number(e.target.value);
+                        if (value !== rule.delay_hours) updateRule(rule, { delay_hours: value });
+                      }}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={rule.bump_priority}
+                      onCheckedChange={(checked) => updateRule(rule, { bump_priority: checked })}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => deleteRule(rule)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {rules.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="py-8 text-center text-muted-foreground">
+                    Complaints in this category are never escalated
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Hub Leads</CardTitle>
+          <CardDescription>
+            Complaints escalated to "Hub Lead" are reassigned to the lead of their hub.
+            Hubs without a lead keep their current assignee.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <Input
+              placeholder="Hub, e.g. Kochi Hub"
+              value={newHub}
+              onChange={(e) => setNewHub(e.target.value)}
+            />
+            <Select value={newLeadId} onValueChange={setNewLeadId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select lead" />
+              </SelectTrigger>
+              <SelectContent>
+                {managers.map(manager => (
+                  <SelectItem key={manager.id} value={manager.id}>{manager.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={addHubLead}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Hub Lead
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            {hubLeads.map((hubLead) => (
+              <div key={hubLead.id} className="flex items-center justify-between rounded-md border p-2">
+                <span className="text-sm">
+                  <span className="font-medium">{hubLead.hub}</span> — {managerName(hubLead.lead_id)}
+                </span>
+                <Button variant="ghost" size="sm" onClick={() => deleteHubLead(hubLead)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
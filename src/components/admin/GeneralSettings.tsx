@@ -0,0 +1,128 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import { fetchSetting, saveSetting } from '@/lib/settings';
+
+export const GeneralSettings = () => {
+  const [reopenWindowHours, setReopenWindowHours] = useState('');
+  const [editWindowMinutes, setEditWindowMinutes] = useState('');
+  const [mediumThreshold, setMediumThreshold] = useState('');
+  const [highThreshold, setHighThreshold] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSetting('reopen_window_hours', 72).then(value => setReopenWindowHours(String(value)));
+    fetchSetting('message_edit_window_minutes', 15).then(value => setEditWindowMinutes(String(value)));
+    fetchSetting('supporter_priority_thresholds', { medium: 3, high: 10 }).then(value => {
+      setMediumThreshold(String(value.medium));
+      setHighThreshold(String(value.high));
+    });
+  }, []);
+
+  const handleSave = async () => {
+    const hours = Number(reopenWindowHours);
+    if (!Number.isInteger(hours) || hours < 0) {
+      toast.error('Reopen window must be a whole number of hours');
+      return;
+    }
+
+    const minutes = Number(editWindowMinutes);
+    if (!Number.isInteger(minutes) || minutes < 0) {
+      toast.error('Message edit window must be a whole number of minutes');
+      return;
+    }
+
+    const medium = Number(mediumThreshold);
+    const high = Number(highThreshold);
+    if (!Number.isInteger(medium) || !Number.isInteger(high) || medium < 1 || high < medium) {
+      toast.error('Supporter thresholds must be whole numbers, with high at least as large as medium');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveSetting('reopen_window_hours', hours);
+      await saveSetting('message_edit_window_minutes', minutes);
+      await saveSetting('supporter_priority_thresholds', { medium, high });
+      toast.success('Settings saved');
+    } catch (error) {
+      toast.error('Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>General</CardTitle>
+        <CardDescription>Rules that apply to every complaint</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2 max-w-sm">
+          <Label htmlFor="reopen-window">Reopen window (hours)</Label>
+          <Input
+            id="reopen-window"
+            type="number"
+            min={0}
+            value={reopenWindowHours}
+            onChange={(e) => setReopenWindowHours(e.target.value)}
+          />
+          <p className="text-sm text-muted-foreground">
+            How long after resolution a student can reopen their complaint. Set to 0 to disable reopening.
+          </p>
+        </div>
+
+        <div className="space-y-2 max-w-sm">
+          <Label htmlFor="edit-window">Message edit window (minutes)</Label>
+          <Input
+            id="edit-window"
+            type="number"
+            min={0}
+            value={editWindowMinutes}
+            onChange={(e) => setEditWindowMinutes(e.target.value)}
+          />
+          <p className="text-sm text-muted-foreground">
+            How long after sending a message its author can still edit or retract it. Set to 0 to disable editing.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Supporters needed to raise priority</Label>
+          <div className="grid max-w-sm grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="supporters-medium" className="text-xs text-muted-foreground">To medium</Label>
+              <Input
+                id="supporters-medium"
+                type="number"
+                min={1}
+                value={mediumThreshold}
+                onChange={(e) => setMediumThreshold(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="supporters-high" className="text-xs text-muted-foreground">To high</Label>
+              <Input
+                id="supporters-high"
+                type="number"
+                min={1}
+                value={highThreshold}
+                onChange={(e) => setHighThreshold(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            When this many students say "Me too", a complaint's priority is raised automatically. Priority is never lowered.
+          </p>
+        </div>
+
+        <Button onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save Settings'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { Tables } from '@/integrations/supabase/types';
+
+type SummaryRow = Tables<'satisfaction_summary'>;
+type GroupBy = 'manager_id' | 'hub' | 'category';
+
+interface ReportRow {
+  key: string;
+  responses: number;
+  confirmed: number;
+  averageRating: number;
+}
+
+export const SatisfactionReport = () => {
+  const [rows, setRows] = useState<SummaryRow[]>([]);
+  const [managerNames, setManagerNames] = useState<Record<string, string>>({});
+  const [groupBy, setGroupBy] = useState<GroupBy>('manager_id');
+
+  useEffect(() => {
+    fetchSummary();
+  }, []);
+
+  const fetchSummary = async () => {
+    try {
+      const [summaryResult, managersResult] = await Promise.all([
+        supabase.from('satisfaction_summary').select('*'),
+        supabase.from('profiles').select('id, name').in('role', ['manager', 'admin']),
+      ]);
+
+      if (summaryResult.error) throw summaryResult.error;
+
+      setRows(summaryResult.data || []);
+      setManagerNames(Object.fromEntries((managersResult.data || []).map(m => [m.id, m.name])));
+    } catch (error) {
+      toast.error('Failed to load satisfaction report');
+    }
+  };
+
+  // Roll the manager × hub × category summary up to the selected dimension
+  const report = Object.values(
+    rows.reduce<Record<string, ReportRow & { ratingTotal: number }>>((acc, row) => {
+      const key = row[groupBy] ?? 'unassigned';
+      const responses = row.responses ?? 0;
+      const entry = acc[key] ?? { key, responses: 0, confirmed: 0, averageRating: 0, ratingTotal: 0 };
+      entry.responses += responses;
+      entry.confirmed += row.confirmed_count ?? 0;
+      entry.ratingTotal += (row.average_rating ?? 0) * responses;
+      entry.averageRating = entry.ratingTotal / entry.responses;
+      acc[key] = entry;
+      return acc;
+    }, {})
+  ).sort((a, b) => b.averageRating - a.averageRating);
+
+  const label = (key: string) => {
+    if (key === 'unassigned') return groupBy === 'manager_id' ? 'Unassigned' : 'Unknown';
+    return groupBy === 'manager_id' ? managerNames[key] || 'Unknown' : key;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Satisfaction</CardTitle>
+        <CardDescription>
+          Ratings students gave when confirming or rejecting a resolution
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Select value={groupBy} onValueChange={(value) => setGroupBy(value as GroupBy)}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="manager_id">By Manager</SelectItem>
+            <SelectItem value="hub">By Hub</SelectItem>
+            <SelectItem value="category">By Category</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{groupBy === 'manager_id' ? 'Manager' : groupBy === 'hub' ? 'Hub' : 'Category'}</TableHead>
+              <TableHead>Responses</TableHead>
+              <TableHead>Confirmed Fixed</TableHead>
+              <TableHead>Average Rating</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.map((row) => (
+              <TableRow key={row.key}>
+                <TableCell className="capitalize">{label(row.key)}</TableCell>
+                <TableCell>{row.responses}</TableCell>
+                <TableCell>{Math.round((row.confirmed / row.responses) * 100)}%</TableCell>
+                <TableCell>{row.averageRating.toFixed(2)} / 5</TableCell>
+              </TableRow>
+            ))}
+            {report.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4} className="py-8 text-center text-muted-foreground">
+                  No ratings yet
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
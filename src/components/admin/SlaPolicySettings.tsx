@@ -0,0 +1,220 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Constants, Tables } from '@/integrations/supabase/types';
+
+type SlaPolicy = Tables<'sla_policies'>;
+
+const CATEGORIES = Constants.public.Enums.complaint_category;
+const PRIORITIES = Constants.public.Enums.complaint_priority;
+
+export const SlaPolicySettings = () => {
+  const [policies, setPolicies] = useState<SlaPolicy[]>([]);
+  const [hours, setHours] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  // New policy form
+  const [newCategory, setNewCategory] = useState<SlaPolicy['category']>('facilities');
+  const [newPriority, setNewPriority] = useState<SlaPolicy['priority']>('medium');
+  const [newHub, setNewHub] = useState('');
+  const [newHours, setNewHours] = useState('72');
+
+  useEffect(() => {
+    fetchPolicies();
+  }, []);
+
+  const fetchPolicies = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('sla_policies')
+        .select('*')
+        .order('category')
+        .order('priority')
+        .order('hub', { nullsFirst: true });
+
+      if (error) throw error;
+
+      setPolicies(data || []);
+      setHours(Object.fromEntries((data || []).map(p => [p.id, String(p.resolution_hours)])));
+    } catch (error) {
+      toast.error('Failed to load SLA policies');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const parseHours = (value: string) => {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+      toast.error('Resolution time must be a whole number of hours');
+      return null;
+    }
+    return parsed;
+  };
+
+  const savePolicy = async (policy: SlaPolicy) => {
+    const resolutionHours = parseHours(hours[policy.id]);
+    if (resolutionHours === null) return;
+
+    try {
+      const { error } = await supabase
+        .from('sla_policies')
+        .update({ resolution_hours: resolutionHours })
+        .eq('id', policy.id);
+
+      if (error) throw error;
+
+      toast.success('SLA policy updated');
+      fetchPolicies();
+    } catch (error) {
+      toast.error('Failed to update SLA policy');
+    }
+  };
+
+  const deletePolicy = async (policy: SlaPolicy) => {
+    try {
+      const { error } = await supabase
+        .from('sla_policies')
+        .delete()
+        .eq('id', policy.id);
+
+      if (error) throw error;
+
+      toast.success('SLA policy removed');
+      fetchPolicies();
+    } catch (error) {
+      toast.error('Failed to remove SLA policy');
+    }
+  };
+
+  const addPolicy = async () => {
+    const resolutionHours = parseHours(newHours);
+    if (resolutionHours === null) return;
+
+    try {
+      const { error } = await supabase
+        .from('sla_policies')
+        .insert({
+          category: newCategory,
+          priority: newPriority,
+          hub: newHub.trim() || null,
+          resolution_hours: resolutionHours,
+        });
+
+      if (error) throw error;
+
+      toast.success('SLA policy added');
+      setNewHub('');
+      fetchPolicies();
+    } catch (error) {
+      toast.error(error.code === '23505'
+        ? 'A policy already exists for this category, priority and hub'
+        : 'Failed to add SLA policy');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>SLA Policies</CardTitle>
+        <CardDescription>
+          Target resolution time for each category and priority. Hub-specific policies override the default.
+          Changes apply to new complaints and to complaints whose priority changes.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-5">
+          <Select value={newCategory} onValueChange={(value) => setNewCategory(value as SlaPolicy['category'])}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CATEGORIES.map(category => (
+                <SelectItem key={category} value={category} className="capitalize">{category}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={newPriority} onValueChange={(value) => setNewPriority(value as SlaPolicy['priority'])}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PRIORITIES.map(priority => (
+                <SelectItem key={priority} value={priority} className="capitalize">{priority}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Hub (blank for all hubs)"
+            value={newHub}
+            onChange={(e) => setNewHub(e.target.value)}
+          />
+          <Input
+            type="number"
+            min={1}
+            placeholder="Hours"
+            value={newHours}
+            onChange={(e) => setNewHours(e.target.value)}
+          />
+          <Button onClick={addPolicy}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Policy
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="py-12 text-center text-muted-foreground">Loading policies...</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Category</TableHead>
+                <TableHead>Priority</TableHead>
+                <TableHead>Hub</TableHead>
+                <TableHead>Resolution Time (hours)</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {policies.map((policy) => (
+                <TableRow key={policy.id}>
+                  <TableCell className="capitalize">{policy.category}</TableCell>
+                  <TableCell className="capitalize">{policy.priority}</TableCell>
+                  <TableCell>{policy.hub || 'All hubs'}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={1}
+                      className="w-28"
+                      value={hours[policy.id] ?? ''}
+                      onChange={(e) => setHours(prev => ({ ...prev, [policy.id]: e.target.value }))}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={hours[policy.id] === String(policy.resolution_hours)}
+                      onClick={() => savePolicy(policy)}
+                    >
+                      Save
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => deletePolicy(policy)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
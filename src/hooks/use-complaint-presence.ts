@@ -0,0 +1,129 @@
+import * as React from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface PresenceViewer {
+  // Presence key; null for anonymous reporters, who get a random key per page view
+  id: string | null;
+  name: string;
+  isStaff: boolean;
+}
+
+interface ViewerState {
+  name: string;
+  is_staff: boolean;
+  typing: boolean;
+}
+
+// Typing is cleared automatically after this long without a keystroke
+const TYPING_TIMEOUT = 3000;
+
+// Who else has a complaint open and who is typing in its thread. Only the name
+// shown in the thread is shared, so anonymous reporters appear as "Reporter".
+// The channel is private: only managers and the complaint's reporter can join.
+export function useComplaintPresence(complaintId: string | undefined, viewer: PresenceViewer | null) {
+  const [others, setOthers] = React.useState<ViewerState[]>([]);
+  const channelRef = React.useRef<ReturnType<typeof supabase.channel> | null>(null);
+  const typingRef = React.useRef(false);
+  const typingTimeout = React.useRef<ReturnType<typeof setTimeout>>();
+  const anonymousKey = React.useMemo(() => crypto.randomUUID(), []);
+
+  const key = viewer ? viewer.id ?? anonymousKey : null;
+  const name = viewer?.name;
+  const isStaff = !!viewer?.isStaff;
+
+  const track = React.useCallback((typing: boolean) => {
+    if (!name) return;
+    typingRef.current = typing;
+    channelRef.current?.track({ name, is_staff: isStaff, typing });
+  }, [name, isStaff]);
+
+  React.useEffect(() => {
+    if (!complaintId || !key) return;
+
+    const channel = supabase.channel(`presence:${complaintId}`, {
+      config: { private: true, presence: { key } },
+    });
+
+    channel
+      .on("presence", { event: "sync" }, () => {
+        const state = channel.presenceState<ViewerState>();
+        // One entry per person, even with the complaint open in several tabs
+        setOthers(Object.entries(state)
+          .filter(([presenceKey]) => presenceKey !== key)
+          .map(([, metas]) => ({ ...metas[0], typing: metas.some(m => m.typing) })));
+      })
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") track(typingRef.current);
+      });
+    channelRef.current = channel;
+
+    return () => {
+      clearTimeout(typingTimeout.current);
+      channelRef.current = null;
+      setOthers([]);
+      supabase.removeChannel(channel);
+    };
+  }, [complaintId, key, track]);
+
+  const setTyping = React.useCallback((typing: boolean) => {
+    clearTimeout(typingTimeout.current);
+    if (typing) typingTimeout.current = setTimeout(() => track(false), TYPING_TIMEOUT);
+    if (typing !== typingRef.current) track(typing);
+  }, [track]);
+
+  return {
+    viewers: others,
+    typing: others.filter(o => o.typing),
+    setTyping,
+  };
+}
+
+interface Handler {
+  id: string;
+  name: string;
+}
+
+// Which managers currently have which complaints open, shared across the
+// dashboard. Pass a complaint id to announce that this manager is handling it.
+// The channel is private and only managers can join it.
+export function useHandlingPresence(manager: { id: string; name: string; complaintId?: string } | null) {
+  const [handlers, setHandlers] = React.useState<Record<string, Handler[]>>({});
+
+  const id = manager?.id;
+  const name = manager?.name;
+  const complaintId = manager?.complaintId;
+
+  React.useEffect(() => {
+    if (!id) return;
+
+    const channel = supabase.channel("presence:handling", {
+      config: { private: true, presence: { key: id } },
+    });
+
+    channel
+      .on("presence", { event: "sync" }, () => {
+        const state = channel.presenceState<{ name: string; complaint_id: string }>();
+        const next: Record<string, Handler[]> = {};
+        Object.entries(state).forEach(([managerId, metas]) => {
+          if (managerId === id) return;
+          new Set(metas.map(m => m.complaint_id)).forEach(openComplaint => {
+            const handler = { id: managerId, name: metas[0].name };
+            next[openComplaint] = [...(next[openComplaint] || []), handler];
+          });
+        });
+        setHandlers(next);
+      })
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED" && complaintId && name) {
+          channel.track({ name, complaint_id: complaintId });
+        }
+      });
+
+    return () => {
+      setHandlers({});
+      supabase.removeChannel(channel);
+    };
+  }, [id, name, complaintId]);
+
+  return handlers;
+}
@@ -0,0 +1,12 @@
+import * as React from "react";
+
+export function useDebounce<T>(value: T, delayMs = 500) {
+  const [debounced, setDebounced] = React.useState(value);
+
+  React.useEffect(() => {
+    const id = window.setTimeout(() => setDebounced(value), delayMs);
+    return () => window.clearTimeout(id);
+  }, [value, delayMs]);
+
+  return debounced;
+}
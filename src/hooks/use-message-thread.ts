@@ -0,0 +1,252 @@
+import * as React from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { MessageAttachment, uploadAttachment } from "@/lib/attachments";
+
+export interface ThreadMessage {
+  id: string;
+  complaint_id: string;
+  body: string;
+  sender_id: string | null;
+  // Reporter messages on anonymous complaints arrive without a sender_id
+  from_reporter: boolean;
+  is_internal: boolean;
+  created_at: string;
+  edited_at: string | null;
+  retracted_at: string | null;
+  profiles?: {
+    name: string;
+  } | null;
+  attachments: MessageAttachment[];
+  // Set on this client's own messages until the insert and uploads are confirmed
+  delivery?: "pending" | "failed";
+  pendingFiles?: File[];
+}
+
+interface AttachmentRow extends MessageAttachment {
+  message_id: string | null;
+}
+
+interface Sender {
+  id: string;
+  name: string | null;
+  // Uploader recorded on attachments; null for anonymous reporters
+  uploaderId: string | null;
+}
+
+export function useMessageThread(complaintId: string | undefined, sender: Sender | null) {
+  const [messages, setMessages] = React.useState<ThreadMessage[]>([]);
+  const names = React.useRef<Record<string, string>>({});
+
+  const upsertMessage = React.useCallback((message: ThreadMessage) => {
+    setMessages(prev => prev.some(m => m.id === message.id)
+      ? prev.map(m => m.id === message.id ? { ...m, ...message } : m)
+      : [...prev, message]
+    );
+  }, []);
+
+  const resolveName = React.useCallback(async (profileId: string | null) => {
+    if (!profileId) return null;
+    if (!(profileId in names.current)) {
+      const { data } = await supabase
+        .from("profiles")
+        .select("name")
+        .eq("id", profileId)
+        .maybeSingle();
+
+      names.current[profileId] = data?.name ?? "";
+    }
+    return names.current[profileId] ? { name: names.current[profileId] } : null;
+  }, []);
+
+  const load = React.useCallback(async () => {
+    if (!complaintId) return;
+
+    const { data, error } = await supabase
+      .from("messages")
+      .select("*, profiles(name), attachments(id, file_name, file_path, mime_type, file_size, scan_status)")
+      .eq("complaint_id", complaintId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Failed to load messages:", error);
+      return;
+    }
+
+    (data || []).forEach(m => {
+      if (m.sender_id && m.profiles) names.current[m.sender_id] = m.profiles.name;
+    });
+
+    // Keep local sends the server has not confirmed yet
+    setMessages(prev => [
+      ...(data || []),
+      ...prev.filter(m => m.delivery && !data?.some(d => d.id === m.id)),
+    ]);
+  }, [complaintId]);
+
+  React.useEffect(() => {
+    if (!complaintId) return;
+
+    setMessages([]);
+    load();
+
+    // New files, and files whose scan has finished: other participants only receive
+    // a file once it has passed, as an update rather than an insert
+    const applyAttachment = (row: AttachmentRow) => {
+      const { message_id, id, file_name, file_path, mime_type, file_size, scan_status } = row;
+      if (!message_id) return;
+
+      const attachment = { id, file_name, file_path, mime_type, file_size, scan_status };
+      setMessages(prev => prev.map(m => m.id !== message_id ? m : {
+        ...m,
+        attachments: m.attachments.some(a => a.id === id)
+          ? m.attachments.map(a => a.id === id ? attachment : a)
+          : [...m.attachments, attachment],
+      }));
+    };
+
+    const channel = supabase
+      .channel(`messages:${complaintId}`, { config: { private: true } })
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "messages", filter: `complaint_id=eq.${complaintId}` },
+        async (payload) => {
+          const message = payload.new as Omit<ThreadMessage, "attachments">;
+          const profiles = await resolveName(message.sender_id);
+          setMessages(prev => prev.some(m => m.id === message.id)
+            ? prev.map(m => m.id === message.id ? { ...m, ...message, profiles } : m)
+            : [...prev, { ...message, profiles, attachments: [] }]
+          );
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "attachments", filter: `complaint_id=eq.${complaintId}` },
+        (payload) => applyAttachment(payload.new as AttachmentRow)
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "attachments", filter: `complaint_id=eq.${complaintId}` },
+        (payload) => applyAttachment(payload.new as AttachmentRow)
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "messages", filter: `complaint_id=eq.${complaintId}` },
+        (payload) => {
+          const { id, body, edited_at, retracted_at } = payload.new as ThreadMessage;
+          setMessages(prev => prev.map(m => m.id === id ? { ...m, body, edited_at, retracted_at } : m));
+        }
+      )
+      .subscribe((status) => {
+        // Catch up on anything sent while the channel was disconnected
+        if (status === "SUBSCRIBED") load();
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [complaintId, load, resolveName]);
+
+  const deliver = React.useCallback(async (message: ThreadMessage) => {
+    const { error } = await supabase
+      .from("messages")
+      .insert({
+        id: message.id,
+        complaint_id: message.complaint_id,
+        sender_id: message.sender_id,
+        body: message.body,
+        is_internal: message.is_internal,
+      });
+
+    // A duplicate key means an earlier attempt reached the server after all
+    let delivered = !error || error.code === "23505";
+    if (!delivered) console.error("Failed to send message:", error);
+
+    // Upload files one by one so a retry only repeats the ones that failed
+    const remaining: File[] = [];
+    for (const file of delivered ? message.pendingFiles || [] : []) {
+      try {
+        await uploadAttachment(file, {
+          complaintId: message.complaint_id,
+          messageId: message.id,
+          uploaderId: sender?.uploaderId ?? null,
+        });
+      } catch (uploadError) {
+        console.error(`Failed to upload ${file.name}:`, uploadError);
+        remaining.push(file);
+      }
+    }
+    if (remaining.length > 0) delivered = false;
+
+    setMessages(prev => prev.map(m => m.id === message.id
+      ? {
+          ...m,
+          delivery: delivered ? undefined : "failed",
+          pendingFiles: delivered ? undefined : remaining.length > 0 ? remaining : m.pendingFiles,
+        }
+      : m
+    ));
+  }, [sender?.uploaderId]);
+
+  const sendMessage = React.useCallback((body: string, { isInternal = false, files = [] as File[] } = {}) => {
+    if (!complaintId || !sender) return;
+
+    const message: ThreadMessage = {
+      id: crypto.randomUUID(),
+      complaint_id: complaintId,
+      body,
+      sender_id: sender.id,
+      from_reporter: false,
+      // Internal notes are only delivered to managers and admins
+      is_internal: isInternal,
+      created_at: new Date().toISOString(),
+      edited_at: null,
+      retracted_at: null,
+      profiles: sender.name ? { name: sender.name } : null,
+      attachments: [],
+      delivery: "pending",
+      pendingFiles: files,
+    };
+
+    upsertMessage(message);
+    deliver(message);
+  }, [complaintId, sender, deliver, upsertMessage]);
+
+  const retryMessage = React.useCallback((messageId: string) => {
+    const message = messages.find(m => m.id === messageId && m.delivery === "failed");
+    if (!message) return;
+
+    upsertMessage({ ...message, delivery: "pending" });
+    deliver(message);
+  }, [messages, deliver, upsertMessage]);
+
+  const updateMessage = React.useCallback(async (
+    messageId: string,
+    changes: { body: string } | { retracted_at: string }
+  ) => {
+    const { data, error } = await supabase
+      .from("messages")
+      .update(changes)
+      .eq("id", messageId)
+      .select("body, edited_at, retracted_at")
+      .maybeSingle();
+
+    if (error) throw error;
+    // Row security filters out updates once the edit window has closed
+    if (!data) throw new Error("This message can no longer be changed");
+
+    setMessages(prev => prev.map(m => m.id === messageId ? { ...m, ...data } : m));
+  }, []);
+
+  const editMessage = React.useCallback(
+    (messageId: string, body: string) => updateMessage(messageId, { body }),
+    [updateMessage]
+  );
+
+  // The server clears the body and stamps the real retraction time
+  const retractMessage = React.useCallback(
+    (messageId: string) => updateMessage(messageId, { retracted_at: new Date().toISOString() }),
+    [updateMessage]
+  );
+
+  return { messages, sendMessage, retryMessage, editMessage, retractMessage, reloadMessages: load };
+}
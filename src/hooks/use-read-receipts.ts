@@ -0,0 +1,59 @@
+import * as React from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+interface ReadReceipts {
+  reporterReadAt: string | null;
+  staffReadAt: string | null;
+}
+
+// Marks the thread read whenever its latest message changes, and tracks how far
+// the reporter and the staff have read. Readers announce themselves on a broadcast
+// channel so the other side's "seen" markers update without a reload.
+export function useReadReceipts(complaintId: string | undefined, latestMessageAt: string | undefined) {
+  const [receipts, setReceipts] = React.useState<ReadReceipts>({ reporterReadAt: null, staffReadAt: null });
+  const channelRef = React.useRef<ReturnType<typeof supabase.channel> | null>(null);
+
+  const fetchReceipts = React.useCallback(async () => {
+    if (!complaintId) return;
+
+    const { data, error } = await supabase.rpc("get_complaint_read_receipts", { _complaint_id: complaintId });
+    if (error) {
+      console.error("Failed to load read receipts:", error);
+      return;
+    }
+    setReceipts({
+      reporterReadAt: data?.[0]?.reporter_read_at ?? null,
+      staffReadAt: data?.[0]?.staff_read_at ?? null,
+    });
+  }, [complaintId]);
+
+  React.useEffect(() => {
+    if (!complaintId) return;
+
+    const channel = supabase
+      .channel(`reads:${complaintId}`, { config: { private: true } })
+      .on("broadcast", { event: "read" }, () => fetchReceipts())
+      .subscribe();
+    channelRef.current = channel;
+
+    return () => {
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [complaintId, fetchReceipts]);
+
+  React.useEffect(() => {
+    if (!complaintId) return;
+
+    supabase.rpc("mark_complaint_read", { _complaint_id: complaintId }).then(({ error }) => {
+      if (error) {
+        console.error("Failed to mark complaint as read:", error);
+        return;
+      }
+      channelRef.current?.send({ type: "broadcast", event: "read", payload: {} });
+      fetchReceipts();
+    });
+  }, [complaintId, latestMessageAt, fetchReceipts]);
+
+  return receipts;
+}
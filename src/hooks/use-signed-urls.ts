@@ -0,0 +1,39 @@
+import * as React from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { SIGNED_URL_TTL } from "@/lib/attachments";
+
+// Signed URLs for files in the attachments bucket, keyed by path. They are short-lived,
+// so they are renewed shortly before they expire for as long as the component is mounted.
+export function useSignedUrls(paths: string[]) {
+  const [urls, setUrls] = React.useState<Record<string, string>>({});
+  const pathsKey = paths.join("\n");
+
+  React.useEffect(() => {
+    const current = pathsKey ? pathsKey.split("\n") : [];
+    if (current.length === 0) return;
+
+    let cancelled = false;
+    const sign = async () => {
+      const { data, error } = await supabase.storage
+        .from("complaint-attachments")
+        .createSignedUrls(current, SIGNED_URL_TTL);
+
+      if (cancelled) return;
+      if (error) {
+        console.error("Failed to load attachments:", error);
+        return;
+      }
+      setUrls(Object.fromEntries((data || []).filter(d => d.signedUrl).map(d => [d.path, d.signedUrl])));
+    };
+
+    sign();
+    const interval = setInterval(sign, SIGNED_URL_TTL * 800);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [pathsKey]);
+
+  return urls;
+}
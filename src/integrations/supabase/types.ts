@@ -14,6 +14,59 @@ export type Database = {
   }
   public: {
     Tables: {
+      app_settings: {
+        Row: {
+          key: string
+          updated_at: string
+          value: Json
+        }
+        Insert: {
+          key: string
+          updated_at?: string
+          value: Json
+        }
+        Update: {
+          key?: string
+          updated_at?: string
+          value?: Json
+        }
+        Relationships: []
+      }
+      assignment_rules: {
+        Row: {
+          category: Database["public"]["Enums"]["complaint_category"] | null
+          created_at: string
+          hub: string | null
+          id: string
+          manager_id: string
+          position: number
+        }
+        Insert: {
+          category?: Database["public"]["Enums"]["complaint_category"] | null
+          created_at?: string
+          hub?: string | null
+          id?: string
+          manager_id: string
+          position?: number
+        }
+        Update: {
+          category?: Database["public"]["Enums"]["complaint_category"] | null
+          created_at?: string
+          hub?: string | null
+          id?: string
+          manager_id?: string
+          position?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assignment_rules_manager_id_fkey"
+            columns: ["manager_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       attachments: {
         Row: {
           complaint_id: string
@@ -22,7 +75,10 @@ export type Database = {
           file_path: string
           file_size: number | null
           id: string
+          message_id: string | null
           mime_type: string
+          scan_started_at: string | null
+          scan_status: string
           uploader_id: string | null
         }
         Insert: {
@@ -32,7 +88,10 @@ export type Database = {
           file_path: string
           file_size?: number | null
           id?: string
+          message_id?: string | null
           mime_type: string
+          scan_started_at?: string | null
+          scan_status?: string
           uploader_id?: string | null
         }
         Update: {
@@ -42,7 +101,10 @@ export type Database = {
           file_path?: string
           file_size?: number | null
           id?: string
+          message_id?: string | null
           mime_type?: string
+          scan_started_at?: string | null
+          scan_status?: string
           uploader_id?: string | null
         }
         Relationships: [
@@ -53,6 +115,13 @@ export type Database = {
             referencedRelation: "complaints"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "attachments_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "attachments_uploader_id_fkey"
             columns: ["uploader_id"]
@@ -158,56 +227,304 @@ export type Database = {
           },
         ]
       }
+      complaint_feedback: {
+        Row: {
+          comment: string | null
+          complaint_id: string
+          confirmed: boolean
+          created_at: string
+          id: string
+          manager_id: string | null
+          rating: number
+          user_id: string | null
+        }
+        Insert: {
+          comment?: string | null
+          complaint_id: string
+          confirmed: boolean
+          created_at?: string
+          id?: string
+          manager_id?: string | null
+          rating: number
+          user_id?: string | null
+        }
+        Update: {
+          comment?: string | null
+          complaint_id?: string
+          confirmed?: boolean
+          created_at?: string
+          id?: string
+          manager_id?: string | null
+          rating?: number
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaint_feedback_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaint_feedback_manager_id_fkey"
+            columns: ["manager_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaint_feedback_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      complaint_history: {
+        Row: {
+          actor_id: string | null
+          by_reporter: boolean
+          complaint_id: string
+          created_at: string
+          field: string
+          id: string
+          new_value: string | null
+          old_value: string | null
+        }
+        Insert: {
+          actor_id?: string | null
+          by_reporter?: boolean
+          complaint_id: string
+          created_at?: string
+          field: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+        }
+        Update: {
+          actor_id?: string | null
+          by_reporter?: boolean
+          complaint_id?: string
+          created_at?: string
+          field?: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaint_history_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaint_history_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      complaint_reads: {
+        Row: {
+          complaint_id: string
+          last_read_at: string
+          user_id: string
+        }
+        Insert: {
+          complaint_id: string
+          last_read_at?: string
+          user_id: string
+        }
+        Update: {
+          complaint_id?: string
+          last_read_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaint_reads_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaint_reads_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      complaint_reporters: {
+        Row: {
+          complaint_id: string
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          complaint_id: string
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          complaint_id?: string
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaint_reporters_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: true
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaint_reporters_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      complaint_status_transitions: {
+        Row: {
+          from_status: Database["public"]["Enums"]["complaint_status"]
+          requires_note: boolean
+          to_status: Database["public"]["Enums"]["complaint_status"]
+        }
+        Insert: {
+          from_status: Database["public"]["Enums"]["complaint_status"]
+          requires_note?: boolean
+          to_status: Database["public"]["Enums"]["complaint_status"]
+        }
+        Update: {
+          from_status?: Database["public"]["Enums"]["complaint_status"]
+          requires_note?: boolean
+          to_status?: Database["public"]["Enums"]["complaint_status"]
+        }
+        Relationships: []
+      }
+      complaint_supporters: {
+        Row: {
+          complaint_id: string
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          complaint_id: string
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          complaint_id?: string
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaint_supporters_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaint_supporters_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       complaints: {
         Row: {
+          assignment_method: string | null
+          assignment_rule_id: string | null
           category: Database["public"]["Enums"]["complaint_category"]
           created_at: string
           description: string
+          escalated_at: string | null
+          escalation_level: number
           hub: string
           id: string
           is_anonymous: boolean | null
           manager_id: string | null
           priority: Database["public"]["Enums"]["complaint_priority"]
+          reopen_count: number
+          resolved_at: string | null
           room: string | null
           sla_due_at: string | null
           status: Database["public"]["Enums"]["complaint_status"]
+          supporter_count: number
           title: string
           updated_at: string
           user_id: string | null
         }
         Insert: {
+          assignment_method?: string | null
+          assignment_rule_id?: string | null
           category: Database["public"]["Enums"]["complaint_category"]
           created_at?: string
           description: string
+          escalated_at?: string | null
+          escalation_level?: number
           hub: string
           id?: string
           is_anonymous?: boolean | null
           manager_id?: string | null
           priority?: Database["public"]["Enums"]["complaint_priority"]
+          reopen_count?: number
+          resolved_at?: string | null
           room?: string | null
           sla_due_at?: string | null
           status?: Database["public"]["Enums"]["complaint_status"]
+          supporter_count?: number
           title: string
           updated_at?: string
           user_id?: string | null
         }
         Update: {
+          assignment_method?: string | null
+          assignment_rule_id?: string | null
           category?: Database["public"]["Enums"]["complaint_category"]
           created_at?: string
           description?: string
+          escalated_at?: string | null
+          escalation_level?: number
           hub?: string
           id?: string
           is_anonymous?: boolean | null
           manager_id?: string | null
           priority?: Database["public"]["Enums"]["complaint_priority"]
+          reopen_count?: number
+          resolved_at?: string | null
           room?: string | null
           sla_due_at?: string | null
           status?: Database["public"]["Enums"]["complaint_status"]
+          supporter_count?: number
           title?: string
           updated_at?: string
           user_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "complaints_assignment_rule_id_fkey"
+            columns: ["assignment_rule_id"]
+            isOneToOne: false
+            referencedRelation: "assignment_rules"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "complaints_manager_id_fkey"
             columns: ["manager_id"]
@@ -224,29 +541,161 @@ export type Database = {
           },
         ]
       }
+      escalation_rules: {
+        Row: {
+          bump_priority: boolean
+          category: Database["public"]["Enums"]["complaint_category"]
+          created_at: string
+          delay_hours: number
+          id: string
+          level: number
+          target: Database["public"]["Enums"]["escalation_target"]
+          updated_at: string
+        }
+        Insert: {
+          bump_priority?: boolean
+          category: Database["public"]["Enums"]["complaint_category"]
+          created_at?: string
+          delay_hours?: number
+          id?: string
+          level: number
+          target: Database["public"]["Enums"]["escalation_target"]
+          updated_at?: string
+        }
+        Update: {
+          bump_priority?: boolean
+          category?: Database["public"]["Enums"]["complaint_category"]
+          created_at?: string
+          delay_hours?: number
+          id?: string
+          level?: number
+          target?: Database["public"]["Enums"]["escalation_target"]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      hub_leads: {
+        Row: {
+          created_at: string
+          hub: string
+          id: string
+          lead_id: string
+        }
+        Insert: {
+          created_at?: string
+          hub: string
+          id?: string
+          lead_id: string
+        }
+        Update: {
+          created_at?: string
+          hub?: string
+          id?: string
+          lead_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hub_leads_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      manager_coverage: {
+        Row: {
+          category: Database["public"]["Enums"]["complaint_category"] | null
+          created_at: string
+          hub: string | null
+          id: string
+          manager_id: string
+        }
+        Insert: {
+          category?: Database["public"]["Enums"]["complaint_category"] | null
+          created_at?: string
+          hub?: string | null
+          id?: string
+          manager_id: string
+        }
+        Update: {
+          category?: Database["public"]["Enums"]["complaint_category"] | null
+          created_at?: string
+          hub?: string | null
+          id?: string
+          manager_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "manager_coverage_manager_id_fkey"
+            columns: ["manager_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_revisions: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          message_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          message_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          message_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_revisions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
           body: string
           complaint_id: string
           created_at: string
+          edited_at: string | null
+          from_reporter: boolean
           id: string
-          is_internal: boolean | null
+          is_internal: boolean
+          retracted_at: string | null
           sender_id: string | null
         }
         Insert: {
           body: string
           complaint_id: string
           created_at?: string
+          edited_at?: string | null
+          from_reporter?: boolean
           id?: string
-          is_internal?: boolean | null
+          is_internal?: boolean
+          retracted_at?: string | null
           sender_id?: string | null
         }
         Update: {
           body?: string
           complaint_id?: string
           created_at?: string
+          edited_at?: string | null
+          from_reporter?: boolean
           id?: string
-          is_internal?: boolean | null
+          is_internal?: boolean
+          retracted_at?: string | null
           sender_id?: string | null
         }
         Relationships: [
@@ -266,12 +715,96 @@ export type Database = {
           },
         ]
       }
+      notification_deliveries: {
+        Row: {
+          delivered_at: string
+          outbox_id: string
+          recipient_id: string
+        }
+        Insert: {
+          delivered_at?: string
+          outbox_id: string
+          recipient_id: string
+        }
+        Update: {
+          delivered_at?: string
+          outbox_id?: string
+          recipient_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_deliveries_outbox_id_fkey"
+            columns: ["outbox_id"]
+            isOneToOne: false
+            referencedRelation: "notification_outbox"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_outbox: {
+        Row: {
+          actor_id: string | null
+          attempts: number
+          claimed_at: string | null
+          complaint_id: string
+          created_at: string
+          details: Json
+          event: Database["public"]["Enums"]["notification_event"]
+          id: string
+          last_error: string | null
+          message_id: string | null
+          processed_at: string | null
+        }
+        Insert: {
+          actor_id?: string | null
+          attempts?: number
+          claimed_at?: string | null
+          complaint_id: string
+          created_at?: string
+          details?: Json
+          event: Database["public"]["Enums"]["notification_event"]
+          id?: string
+          last_error?: string | null
+          message_id?: string | null
+          processed_at?: string | null
+        }
+        Update: {
+          actor_id?: string | null
+          attempts?: number
+          claimed_at?: string | null
+          complaint_id?: string
+          created_at?: string
+          details?: Json
+          event?: Database["public"]["Enums"]["notification_event"]
+          id?: string
+          last_error?: string | null
+          message_id?: string | null
+          processed_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_outbox_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_outbox_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
           created_at: string
           hub: string | null
           id: string
+          is_available: boolean
           is_verified: boolean | null
           name: string
           phone: string | null
@@ -283,6 +816,7 @@ export type Database = {
           created_at?: string
           hub?: string | null
           id: string
+          is_available?: boolean
           is_verified?: boolean | null
           name: string
           phone?: string | null
@@ -294,6 +828,7 @@ export type Database = {
           created_at?: string
           hub?: string | null
           id?: string
+          is_available?: boolean
           is_verified?: boolean | null
           name?: string
           phone?: string | null
@@ -302,12 +837,325 @@ export type Database = {
         }
         Relationships: []
       }
+      response_macro_uses: {
+        Row: {
+          complaint_id: string
+          created_at: string
+          id: string
+          macro_id: string
+          user_id: string | null
+        }
+        Insert: {
+          complaint_id: string
+          created_at?: string
+          id?: string
+          macro_id: string
+          user_id?: string | null
+        }
+        Update: {
+          complaint_id?: string
+          created_at?: string
+          id?: string
+          macro_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "response_macro_uses_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "response_macro_uses_macro_id_fkey"
+            columns: ["macro_id"]
+            isOneToOne: false
+            referencedRelation: "response_macros"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "response_macro_uses_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      response_macros: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          is_shared: boolean
+          name: string
+          owner_id: string
+          priority: Database["public"]["Enums"]["complaint_priority"] | null
+          status: Database["public"]["Enums"]["complaint_status"] | null
+          updated_at: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          is_shared?: boolean
+          name: string
+          owner_id: string
+          priority?: Database["public"]["Enums"]["complaint_priority"] | null
+          status?: Database["public"]["Enums"]["complaint_status"] | null
+          updated_at?: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          is_shared?: boolean
+          name?: string
+          owner_id?: string
+          priority?: Database["public"]["Enums"]["complaint_priority"] | null
+          status?: Database["public"]["Enums"]["complaint_status"] | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "response_macros_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sla_policies: {
+        Row: {
+          category: Database["public"]["Enums"]["complaint_category"]
+          created_at: string
+          hub: string | null
+          id: string
+          priority: Database["public"]["Enums"]["complaint_priority"]
+          resolution_hours: number
+          updated_at: string
+        }
+        Insert: {
+          category: Database["public"]["Enums"]["complaint_category"]
+          created_at?: string
+          hub?: string | null
+          id?: string
+          priority: Database["public"]["Enums"]["complaint_priority"]
+          resolution_hours: number
+          updated_at?: string
+        }
+        Update: {
+          category?: Database["public"]["Enums"]["complaint_category"]
+          created_at?: string
+          hub?: string | null
+          id?: string
+          priority?: Database["public"]["Enums"]["complaint_priority"]
+          resolution_hours?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      satisfaction_summary: {
+        Row: {
+          average_rating: number | null
+          category: Database["public"]["Enums"]["complaint_category"] | null
+          confirmed_count: number | null
+          hub: string | null
+          manager_id: string | null
+          responses: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaint_feedback_manager_id_fkey"
+            columns: ["manager_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
-      [_ in never]: never
+      apply_response_macro: {
+        Args: {
+          _body: string
+          _complaint_id: string
+          _macro_id: string
+        }
+        Returns: undefined
+      }
+      attachment_path_complaint_id: {
+        Args: {
+          _path: string
+        }
+        Returns: string
+      }
+      claim_attachment_scans: {
+        Args: {
+          _limit?: number
+        }
+        Returns: Database["public"]["Tables"]["attachments"]["Row"][]
+      }
+      claim_notifications: {
+        Args: {
+          _limit?: number
+        }
+        Returns: Database["public"]["Tables"]["notification_outbox"]["Row"][]
+      }
+      compute_sla_due_at: {
+        Args: {
+          _category: Database["public"]["Enums"]["complaint_category"]
+          _from: string
+          _hub: string
+          _priority: Database["public"]["Enums"]["complaint_priority"]
+        }
+        Returns: string
+      }
+      escalate_overdue_complaints: {
+        Args: never
+        Returns: number
+      }
+      find_similar_complaints: {
+        Args: {
+          _description: string
+          _hub: string
+          _room?: string
+          _title: string
+        }
+        Returns: {
+          category: Database["public"]["Enums"]["complaint_category"]
+          created_at: string
+          id: string
+          is_own: boolean
+          is_supporter: boolean
+          room: string
+          score: number
+          status: Database["public"]["Enums"]["complaint_status"]
+          supporter_count: number
+          title: string
+        }[]
+      }
+      get_complaint_read_receipts: {
+        Args: {
+          _complaint_id: string
+        }
+        Returns: {
+          reporter_read_at: string
+          staff_read_at: string
+        }[]
+      }
+      get_complaint_summary: {
+        Args: {
+          _complaint_id: string
+        }
+        Returns: {
+          category: Database["public"]["Enums"]["complaint_category"]
+          created_at: string
+          hub: string
+          id: string
+          is_supporter: boolean
+          room: string
+          status: Database["public"]["Enums"]["complaint_status"]
+          supporter_count: number
+          title: string
+          updated_at: string
+        }[]
+      }
+      get_supported_complaints: {
+        Args: never
+        Returns: {
+          category: Database["public"]["Enums"]["complaint_category"]
+          created_at: string
+          hub: string
+          id: string
+          room: string
+          status: Database["public"]["Enums"]["complaint_status"]
+          supporter_count: number
+          title: string
+          updated_at: string
+        }[]
+      }
+      get_unread_counts: {
+        Args: never
+        Returns: {
+          complaint_id: string
+          unread_count: number
+        }[]
+      }
+      invoke_edge_function: {
+        Args: {
+          _name: string
+        }
+        Returns: undefined
+      }
+      is_complaint_reporter: {
+        Args: {
+          _complaint_id: string
+        }
+        Returns: boolean
+      }
+      manager_covers: {
+        Args: {
+          _category: Database["public"]["Enums"]["complaint_category"]
+          _hub: string
+          _manager_id: string
+        }
+        Returns: boolean
+      }
+      mark_complaint_read: {
+        Args: {
+          _complaint_id: string
+        }
+        Returns: undefined
+      }
+      message_edit_window: {
+        Args: never
+        Returns: unknown
+      }
+      presence_topic_complaint_id: {
+        Args: {
+          _topic: string
+        }
+        Returns: string
+      }
+      reopen_complaint: {
+        Args: {
+          _complaint_id: string
+          _reason: string
+        }
+        Returns: undefined
+      }
+      reopen_window: {
+        Args: never
+        Returns: unknown
+      }
+      submit_resolution_feedback: {
+        Args: {
+          _comment?: string
+          _complaint_id: string
+          _confirmed: boolean
+          _rating: number
+        }
+        Returns: undefined
+      }
+      thread_topic_complaint_id: {
+        Args: {
+          _topic: string
+        }
+        Returns: string
+      }
+      transition_complaint_status: {
+        Args: {
+          _complaint_id: string
+          _note?: string
+          _status: Database["public"]["Enums"]["complaint_status"]
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       call_status: "ringing" | "active" | "ended" | "missed"
@@ -327,6 +1175,12 @@ export type Database = {
         | "in_progress"
         | "resolved"
         | "closed"
+      escalation_target: "assigned_manager" | "hub_lead" | "admin"
+      notification_event:
+        | "complaint_created"
+        | "complaint_assigned"
+        | "status_changed"
+        | "message_posted"
       user_role: "student" | "manager" | "admin"
     }
     CompositeTypes: {
@@ -474,6 +1328,13 @@ export const Constants = {
         "resolved",
         "closed",
       ],
+      escalation_target: ["assigned_manager", "hub_lead", "admin"],
+      notification_event: [
+        "complaint_created",
+        "complaint_assigned",
+        "status_changed",
+        "message_posted",
+      ],
       user_role: ["student", "manager", "admin"],
     },
   },
@@ -0,0 +1,172 @@
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { sanitizeImage } from '@/lib/images';
+import { createResumableUpload, withRetry } from '@/lib/uploads';
+
+// Limits shared by the submit form and the message composer. MAX_ATTACHMENTS counts
+// every file on a complaint, across its submission and messages.
+export const MAX_ATTACHMENTS = 5;
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const ACCEPTED_ATTACHMENT_TYPES = 'image/*,.pdf';
+// Types the storage bucket accepts; images are converted to JPEG or PNG before upload
+export const ALLOWED_ATTACHMENT_MIME_TYPES = ['image/jpeg', 'image/png', 'application/pdf'];
+// Files uploaded at the same time when several are attached at once
+export const MAX_PARALLEL_UPLOADS = 3;
+
+export interface MessageAttachment {
+  id: string;
+  file_name: string;
+  file_path: string;
+  mime_type: string;
+  file_size: number | null;
+  // 'pending' or 'scanning' until the server has checked the file, then 'clean' or
+  // 'quarantined'. Only the uploader ever sees a file that is not clean.
+  scan_status: string;
+}
+
+export const isImageAttachment = (attachment: { mime_type: string }) =>
+  attachment.mime_type.startsWith('image/');
+
+export const isPdfAttachment = (attachment: { mime_type: string }) =>
+  attachment.mime_type === 'application/pdf';
+
+// Lifetime in seconds of the signed URLs used to show and open attachments
+export const SIGNED_URL_TTL = 300;
+// How long the submit form waits for the server to check uploaded files
+const SCAN_WAIT_MS = 30000;
+const SCAN_POLL_MS = 2000;
+
+export const formatFileSize = (bytes: number | null) => {
+  if (bytes === null) return 'Unknown size';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+// Strip metadata from and downscale every selected image before it can be uploaded.
+// Images the browser cannot decode are dropped, since their metadata cannot be removed.
+export const prepareAttachmentFiles = async (selected: File[]) => {
+  const prepared: File[] = [];
+  for (const file of selected) {
+    if (!file.type.startsWith('image/')) {
+      prepared.push(file);
+      continue;
+    }
+    try {
+      prepared.push(await sanitizeImage(file));
+    } catch (error) {
+      console.error(`Failed to process ${file.name}:`, error);
+      toast.error(`${file.name} could not be processed and was not added. Try a JPEG or PNG.`);
+    }
+  }
+  return prepared;
+};
+
+// Add newly selected files to a selection, dropping oversized ones and capping the count
+export const addAttachmentFiles = (current: File[], selected: File[], limit = MAX_ATTACHMENTS) => {
+  const validFiles = selected.filter(file => {
+    if (!ALLOWED_ATTACHMENT_MIME_TYPES.includes(file.type)) {
+      toast.error(`${file.name} is not a supported file type. Attach images or PDFs.`);
+      return false;
+    }
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      toast.error(`${file.name} is too large. Maximum size is ${MAX_ATTACHMENT_SIZE / 1024 / 1024}MB.`);
+      return false;
+    }
+    return true;
+  });
+
+  return [...current, ...validFiles].slice(0, limit);
+};
+
+// Files are stored at <complaint id>/<random uuid>.<extension>. Storage policies
+// derive access from the complaint folder, so nothing else may go in the path.
+export const attachmentPath = (complaintId: string, file: File) => {
+  const extension = file.name.includes('.')
+    ? file.name.split('.').pop()!.toLowerCase().replace(/[^a-z0-9]/g, '').slice(0, 10)
+    : '';
+  return `${complaintId}/${crypto.randomUUID()}${extension ? `.${extension}` : ''}`;
+};
+
+interface AttachmentTarget {
+  complaintId: string;
+  messageId?: string;
+  uploaderId: string | null;
+}
+
+// Store a file in the attachments bucket and record it against the complaint (and message).
+// The file is uploaded resumably; calling start() again after a failure skips whatever
+// already succeeded, so a retry neither re-sends confirmed chunks nor duplicates the row.
+export const createAttachmentUpload = (
+  file: File,
+  { complaintId, messageId, uploaderId }: AttachmentTarget,
+  onProgress?: (fraction: number) => void
+) => {
+  const id = crypto.randomUUID();
+  const filePath = attachmentPath(complaintId, file);
+  const upload = createResumableUpload('complaint-attachments', filePath, file, onProgress);
+  let stored = false;
+  let recorded = false;
+
+  const recordAttachment = async () => {
+    const { error } = await supabase.from('attachments').insert({
+      id,
+      complaint_id: complaintId,
+      message_id: messageId ?? null,
+      uploader_id: uploaderId,
+      file_path: filePath,
+      file_name: file.name,
+      mime_type: file.type,
+      file_size: file.size,
+    });
+
+    // A duplicate key means an earlier attempt reached the server after all
+    if (error && error.code !== '23505') throw error;
+  };
+
+  const start = async () => {
+    if (!stored) {
+      await upload.start();
+      stored = true;
+    }
+    if (!recorded) {
+      try {
+        await withRetry(recordAttachment);
+      } catch (error) {
+        // The server rejected the row, so the stored file would never be referenced
+        if ((error as { code?: string }).code) {
+          const { error: removeError } = await supabase.storage.from('complaint-attachments').remove([filePath]);
+          if (removeError) console.error(`Failed to remove ${filePath}:`, removeError);
+          else stored = false;
+        }
+        throw error;
+      }
+      recorded = true;
+    }
+  };
+
+  return { id, start };
+};
+
+// Wait until the server has checked each attachment, giving up after SCAN_WAIT_MS.
+// Resolves with the scan status of every attachment that could be read.
+export const waitForAttachmentScans = async (ids: string[]) => {
+  if (ids.length === 0) return {};
+
+  const deadline = Date.now() + SCAN_WAIT_MS;
+  for (;;) {
+    const { data, error } = await supabase
+      .from('attachments')
+      .select('id, scan_status')
+      .in('id', ids);
+    if (error) throw error;
+
+    const statuses: Record<string, string> = Object.fromEntries((data || []).map(a => [a.id, a.scan_status]));
+    const settled = ids.every(id => statuses[id] === 'clean' || statuses[id] === 'quarantined');
+    if (settled || Date.now() >= deadline) return statuses;
+    await new Promise(resolve => setTimeout(resolve, SCAN_POLL_MS));
+  }
+};
+
+export const uploadAttachment = (file: File, target: AttachmentTarget) =>
+  createAttachmentUpload(file, target).start();
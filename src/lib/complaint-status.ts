@@ -0,0 +1,13 @@
+export const STATUS_LABELS: Record<string, string> = {
+  new: 'New',
+  acknowledged: 'Acknowledged',
+  in_progress: 'In Progress',
+  resolved: 'Resolved',
+  closed: 'Closed',
+};
+
+export interface StatusTransition {
+  from_status: string;
+  to_status: string;
+  requires_note: boolean;
+}
@@ -0,0 +1,17 @@
+export interface Coverage {
+  manager_id: string;
+  hub: string | null;
+  category: string | null;
+}
+
+// Mirrors public.manager_covers(): a NULL hub or category covers every value
+export const coversComplaint = (
+  coverage: Coverage[],
+  managerId: string,
+  complaint: { hub: string; category: string }
+) =>
+  coverage.some(c =>
+    c.manager_id === managerId &&
+    (c.hub === null || c.hub.toLowerCase() === complaint.hub.trim().toLowerCase()) &&
+    (c.category === null || c.category === complaint.category)
+  );
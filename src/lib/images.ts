@@ -0,0 +1,38 @@
+// Longest edge, in pixels, of images after processing
+export const MAX_IMAGE_DIMENSION = 2048;
+const JPEG_QUALITY = 0.85;
+
+// Redraw an image onto a canvas and encode it again. Only pixels survive the
+// round trip, so EXIF and other metadata (GPS position, camera serial numbers)
+// is dropped. EXIF orientation is applied first so the photo stays upright.
+// PNGs stay PNG to keep transparency; everything else becomes JPEG.
+export const sanitizeImage = async (file: File): Promise<File> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    throw new Error('Canvas is not supported');
+  }
+
+  const type = file.type === 'image/png' ? 'image/png' : 'image/jpeg';
+  if (type === 'image/jpeg') {
+    // JPEG has no transparency; flatten onto white rather than black
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, width, height);
+  }
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, JPEG_QUALITY));
+  if (!blob) throw new Error('Failed to encode image');
+
+  const baseName = file.name.replace(/\.[^.]*$/, '') || 'image';
+  return new File([blob], `${baseName}.${type === 'image/png' ? 'png' : 'jpg'}`, { type });
+};
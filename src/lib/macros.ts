@@ -0,0 +1,30 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+export type ResponseMacro = Tables<'response_macros'> & {
+  profiles?: { name: string } | null;
+  response_macro_uses?: { count: number }[];
+};
+
+export const MACRO_PLACEHOLDERS = ['title', 'hub', 'room', 'student_name'] as const;
+
+export type MacroContext = Record<(typeof MACRO_PLACEHOLDERS)[number], string>;
+
+// Replace {{placeholder}} tokens with values from the complaint; unknown tokens are left as typed
+export const renderMacro = (body: string, context: MacroContext) =>
+  body.replace(/\{\{\s*(\w+)\s*\}\}/g, (token, key: string) =>
+    key in context ? context[key as keyof MacroContext] : token
+  );
+
+export const macroUsageCount = (macro: ResponseMacro) => macro.response_macro_uses?.[0]?.count ?? 0;
+
+// Macros the signed-in manager can use: their own and the team's shared ones, most used first
+export const fetchMacros = async (): Promise<ResponseMacro[]> => {
+  const { data, error } = await supabase
+    .from('response_macros')
+    .select('*, profiles(name), response_macro_uses(count)')
+    .order('name');
+
+  if (error) throw error;
+  return (data || []).sort((a, b) => macroUsageCount(b) - macroUsageCount(a));
+};
@@ -0,0 +1,109 @@
+// A small Markdown subset for complaint descriptions and messages: paragraphs, fenced
+// code blocks, bulleted and numbered lists, `inline code`, **bold** and links.
+// The parser only produces a tree; components/Markdown renders it as React elements,
+// so no user text is ever interpreted as HTML.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; lines: MarkdownInline[][] }
+  | { type: 'code'; text: string }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownInline[][] };
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+const FENCE = /^\s*```/;
+const BULLET_ITEM = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED_ITEM = /^\s*(\d+)[.)]\s+(.*)$/;
+const INLINE = /(`[^`\n]+`)|(\*\*[^*\n]+?\*\*)|(\[[^\]\n]+\]\([^)\s]+\))|(https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"])/g;
+
+// Only absolute http(s) and mailto links are rendered; anything else stays plain text
+export const safeHref = (url: string) => {
+  try {
+    const parsed = new URL(url);
+    return SAFE_PROTOCOLS.includes(parsed.protocol) ? parsed.href : null;
+  } catch {
+    return null;
+  }
+};
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(INLINE)) {
+    const [token, code, strong, link, url] = match;
+    const index = match.index ?? 0;
+    if (index > lastIndex) nodes.push({ type: 'text', text: text.slice(lastIndex, index) });
+    lastIndex = index + token.length;
+
+    if (code) {
+      nodes.push({ type: 'code', text: code.slice(1, -1) });
+    } else if (strong) {
+      nodes.push({ type: 'strong', children: parseInline(strong.slice(2, -2)) });
+    } else if (link) {
+      const [, label, href] = link.match(/^\[([^\]]+)\]\(([^)]+)\)$/) ?? [];
+      const safe = safeHref(href);
+      nodes.push(safe
+        ? { type: 'link', href: safe, children: parseInline(label) }
+        : { type: 'text', text: token });
+    } else if (url) {
+      const safe = safeHref(url);
+      nodes.push(safe
+        ? { type: 'link', href: safe, children: [{ type: 'text', text: url }] }
+        : { type: 'text', text: token });
+    }
+  }
+
+  if (lastIndex < text.length) nodes.push({ type: 'text', text: text.slice(lastIndex) });
+  return nodes;
+};
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (FENCE.test(line)) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) code.push(lines[i++]);
+      i++; // closing fence, if any
+      blocks.push({ type: 'code', text: code.join('\n') });
+    } else if (BULLET_ITEM.test(line) || NUMBERED_ITEM.test(line)) {
+      const ordered = NUMBERED_ITEM.test(line);
+      const pattern = ordered ? NUMBERED_ITEM : BULLET_ITEM;
+      const start = ordered ? Number(line.match(NUMBERED_ITEM)![1]) : 1;
+      const items: MarkdownInline[][] = [];
+      while (i < lines.length && pattern.test(lines[i])) {
+        const match = lines[i++].match(pattern)!;
+        items.push(parseInline(ordered ? match[2] : match[1]));
+      }
+      blocks.push({ type: 'list', ordered, start, items });
+    } else if (line.trim() === '') {
+      i++;
+    } else {
+      // Single line breaks are kept, since pasted logs and addresses rely on them
+      const paragraph: MarkdownInline[][] = [];
+      while (
+        i < lines.length &&
+        lines[i].trim() !== '' &&
+        !FENCE.test(lines[i]) &&
+        !BULLET_ITEM.test(lines[i]) &&
+        !NUMBERED_ITEM.test(lines[i])
+      ) {
+        paragraph.push(parseInline(lines[i++]));
+      }
+      blocks.push({ type: 'paragraph', lines: paragraph });
+    }
+  }
+
+  return blocks;
+};
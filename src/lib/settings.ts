@@ -0,0 +1,27 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Keys of the admin-editable rows in app_settings
+export type SettingKey =
+  | 'reopen_window_hours'
+  | 'assignment_strategy'
+  | 'supporter_priority_thresholds'
+  | 'message_edit_window_minutes';
+
+export const fetchSetting = async <T>(key: SettingKey, fallback: T): Promise<T> => {
+  const { data, error } = await supabase
+    .from('app_settings')
+    .select('value')
+    .eq('key', key)
+    .maybeSingle();
+
+  if (error || !data) return fallback;
+  return data.value as T;
+};
+
+export const saveSetting = async (key: SettingKey, value: unknown) => {
+  const { error } = await supabase
+    .from('app_settings')
+    .upsert({ key, value: value as never });
+
+  if (error) throw error;
+};
@@ -0,0 +1,42 @@
+export type SlaState = 'on_track' | 'at_risk' | 'breached' | 'stopped' | 'none';
+
+// A complaint is at risk once less than this share of its SLA window remains
+export const SLA_AT_RISK_RATIO = 0.25;
+
+// The SLA clock stops once a complaint reaches one of these statuses
+const STOPPED_STATUSES = ['resolved', 'closed'];
+
+interface SlaComplaint {
+  status: string;
+  created_at: string;
+  sla_due_at: string | null;
+}
+
+export const getSlaState = (complaint: SlaComplaint, now: number = Date.now()): SlaState => {
+  if (!complaint.sla_due_at) return 'none';
+  if (STOPPED_STATUSES.includes(complaint.status)) return 'stopped';
+
+  const due = new Date(complaint.sla_due_at).getTime();
+  const slaWindow = due - new Date(complaint.created_at).getTime();
+  const remaining = due - now;
+
+  if (remaining <= 0) return 'breached';
+  if (remaining <= slaWindow * SLA_AT_RISK_RATIO) return 'at_risk';
+  return 'on_track';
+};
+
+export const getSlaRemaining = (complaint: SlaComplaint, now: number = Date.now()): number | null => {
+  if (!complaint.sla_due_at) return null;
+  return new Date(complaint.sla_due_at).getTime() - now;
+};
+
+export const formatSlaDuration = (ms: number): string => {
+  const totalMinutes = Math.floor(Math.abs(ms) / 60000);
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+};
@@ -0,0 +1,68 @@
+export interface HistoryEntry {
+  id: string;
+  actor_id: string | null;
+  // Changes by the reporter of an anonymous complaint are recorded without an actor
+  by_reporter: boolean;
+  field: string;
+  old_value: string | null;
+  new_value: string | null;
+  created_at: string;
+  profiles?: {
+    name: string;
+  } | null;
+}
+
+export interface AttachmentEntry {
+  id: string;
+  file_name: string;
+  uploader_id: string | null;
+  created_at: string;
+  profiles?: {
+    name: string;
+  } | null;
+}
+
+export interface CallEntry {
+  id: string;
+  type: string;
+  status: string;
+  caller_id: string | null;
+  callee_id: string | null;
+  created_at: string;
+  caller?: {
+    name: string;
+  } | null;
+  callee?: {
+    name: string;
+  } | null;
+}
+
+export type TimelineItem<M> =
+  | { kind: 'message'; id: string; created_at: string; message: M }
+  | { kind: 'history'; id: string; created_at: string; entry: HistoryEntry }
+  | { kind: 'attachment'; id: string; created_at: string; attachment: AttachmentEntry }
+  | { kind: 'call'; id: string; created_at: string; call: CallEntry };
+
+interface TimelineSources<M> {
+  messages: M[];
+  history: HistoryEntry[];
+  attachments: AttachmentEntry[];
+  calls: CallEntry[];
+}
+
+// Merge every activity source on a complaint into one list, oldest first
+export const buildTimeline = <M extends { id: string; created_at: string }>({
+  messages,
+  history,
+  attachments,
+  calls,
+}: TimelineSources<M>): TimelineItem<M>[] => {
+  const items: TimelineItem<M>[] = [
+    ...messages.map(message => ({ kind: 'message' as const, id: message.id, created_at: message.created_at, message })),
+    ...history.map(entry => ({ kind: 'history' as const, id: entry.id, created_at: entry.created_at, entry })),
+    ...attachments.map(attachment => ({ kind: 'attachment' as const, id: attachment.id, created_at: attachment.created_at, attachment })),
+    ...calls.map(call => ({ kind: 'call' as const, id: call.id, created_at: call.created_at, call })),
+  ];
+
+  return items.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+};
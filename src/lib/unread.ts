@@ -0,0 +1,12 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Unread message counts for the signed-in user, keyed by complaint id
+export const fetchUnreadCounts = async (): Promise<Record<string, number>> => {
+  const { data, error } = await supabase.rpc('get_unread_counts');
+
+  if (error) {
+    console.error('Failed to load unread counts:', error);
+    return {};
+  }
+  return Object.fromEntries((data || []).map(row => [row.complaint_id, row.unread_count]));
+};
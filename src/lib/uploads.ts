@@ -0,0 +1,89 @@
+import { Upload } from 'tus-js-client';
+import { supabase } from '@/integrations/supabase/client';
+
+// Delays in milliseconds between automatic retries; one attempt plus one per entry
+export const RETRY_DELAYS = [1000, 3000, 10000];
+
+// Supabase's resumable upload endpoint only accepts 6MB chunks
+const CHUNK_SIZE = 6 * 1024 * 1024;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Run an operation, retrying with backoff while it keeps failing
+export const withRetry = async <T>(operation: () => Promise<T>): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= RETRY_DELAYS.length) throw error;
+      await sleep(RETRY_DELAYS[attempt]);
+    }
+  }
+};
+
+// Run tasks with at most `limit` in flight; resolves once every task has settled
+export const runWithConcurrency = async <T>(tasks: (() => Promise<T>)[], limit: number) => {
+  const results: PromiseSettledResult<T>[] = new Array(tasks.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await tasks[index]() };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+  return results;
+};
+
+export interface ResumableUpload {
+  // Starts the upload, or resumes it from the last chunk the server confirmed
+  start: () => Promise<void>;
+}
+
+// A storage upload over the tus protocol. Each chunk is retried on its own, and
+// calling start() again after a failure continues where the upload stopped.
+export const createResumableUpload = (
+  bucket: string,
+  path: string,
+  file: File,
+  onProgress?: (fraction: number) => void
+): ResumableUpload => {
+  const upload = new Upload(file, {
+    endpoint: `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`,
+    retryDelays: [0, ...RETRY_DELAYS],
+    chunkSize: CHUNK_SIZE,
+    uploadDataDuringCreation: true,
+    removeFingerprintOnSuccess: true,
+    metadata: {
+      bucketName: bucket,
+      objectName: path,
+      contentType: file.type,
+      cacheControl: '3600',
+    },
+    onProgress: (sent, total) => onProgress?.(total ? sent / total : 0),
+  });
+
+  const start = async () => {
+    // The access token may have been refreshed since the last attempt
+    const { data } = await supabase.auth.getSession();
+    upload.options.headers = {
+      authorization: `Bearer ${data.session?.access_token ?? import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+      apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      'x-upsert': 'false',
+    };
+
+    await new Promise<void>((resolve, reject) => {
+      upload.options.onSuccess = () => resolve();
+      upload.options.onError = reject;
+      upload.start();
+    });
+  };
+
+  return { start };
+};
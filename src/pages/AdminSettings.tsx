@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/lib/auth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ArrowLeft } from 'lucide-react';
+import { toast } from 'sonner';
+import { ProtectedRoute } from '@/components/ProtectedRoute';
+import { SlaPolicySettings } from '@/components/admin/SlaPolicySettings';
+import { EscalationSettings } from '@/components/admin/EscalationSettings';
+import { GeneralSettings } from '@/components/admin/GeneralSettings';
+import { SatisfactionReport } from '@/components/admin/SatisfactionReport';
+import { AssignmentSettings } from '@/components/admin/AssignmentSettings';
+import { CoverageSettings } from '@/components/admin/CoverageSettings';
+
+function AdminSettingsContent() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    checkAdminAccess();
+  }, [user]);
+
+  const checkAdminAccess = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', user?.id)
+        .single();
+
+      if (error) throw error;
+
+      if (data.role !== 'admin') {
+        toast.error('Access denied. Admin role required.');
+        navigate('/manager/dashboard');
+        return;
+      }
+
+      setLoading(false);
+    } catch (error) {
+      toast.error('Failed to verify access');
+      navigate('/dashboard');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto flex h-16 items-center px-4">
+          <Button onClick={() => navigate('/manager/dashboard')} variant="ghost" size="sm">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto p-4 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Admin Settings</h1>
+          <p className="text-sm text-muted-foreground">
+            Configure how complaints are handled across all hubs
+          </p>
+        </div>
+
+        <Tabs defaultValue="general">
+          <TabsList>
+            <TabsTrigger value="general">General</TabsTrigger>
+            <TabsTrigger value="sla">SLA Policies</TabsTrigger>
+            <TabsTrigger value="coverage">Coverage</TabsTrigger>
+            <TabsTrigger value="assignment">Assignment</TabsTrigger>
+            <TabsTrigger value="escalation">Escalation</TabsTrigger>
+            <TabsTrigger value="satisfaction">Satisfaction</TabsTrigger>
+          </TabsList>
+          <TabsContent value="general">
+            <GeneralSettings />
+          </TabsContent>
+          <TabsContent value="sla">
+            <SlaPolicySettings />
+          </TabsContent>
+          <TabsContent value="coverage">
+            <CoverageSettings />
+          </TabsContent>
+          <TabsContent value="assignment">
+            <AssignmentSettings />
+          </TabsContent>
+          <TabsContent value="escalation">
+            <EscalationSettings />
+          </TabsContent>
+          <TabsContent value="satisfaction">
+            <SatisfactionReport />
+          </TabsContent>
+        </Tabs>
+      </main>
+    </div>
+  );
+}
+
+export default function AdminSettings() {
+  return (
+    <ProtectedRoute>
+      <AdminSettingsContent />
+    </ProtectedRoute>
+  );
+}
@@ -6,9 +6,44 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
 import { toast } from 'sonner';
-import { ArrowLeft, Send } from 'lucide-react';
+import { AlertCircle, ArrowLeft, Eye, Lock, Paperclip, Pencil, RotateCcw, Send, Trash2, X } from 'lucide-react';
 import { ProtectedRoute } from '@/components/ProtectedRoute';
+import { SlaBadge } from '@/components/SlaBadge';
+import { ResolutionFeedbackDialog } from '@/components/ResolutionFeedbackDialog';
+import { ComplaintSummary, ComplaintSummaryCard } from '@/components/ComplaintSummaryCard';
+import { TimelineEvent } from '@/components/TimelineEvent';
+import { MessageAttachments } from '@/components/MessageAttachments';
+import { MacroPicker } from '@/components/MacroPicker';
+import { Markdown } from '@/components/Markdown';
+import { MarkdownTextarea } from '@/components/MarkdownTextarea';
+import { MessageRevisions } from '@/components/MessageRevisions';
+import { AttachmentGallery, GalleryAttachment } from '@/components/AttachmentGallery';
+import { AttachmentEntry, CallEntry, HistoryEntry, buildTimeline } from '@/lib/timeline';
+import { fetchSetting } from '@/lib/settings';
+import {
+  ACCEPTED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENTS,
+  MessageAttachment,
+  addAttachmentFiles,
+  prepareAttachmentFiles,
+} from '@/lib/attachments';
+import { ResponseMacro, renderMacro } from '@/lib/macros';
+import { STATUS_LABELS } from '@/lib/complaint-status';
+import { ThreadMessage, useMessageThread } from '@/hooks/use-message-thread';
+import { useReadReceipts } from '@/hooks/use-read-receipts';
+import { useComplaintPresence, useHandlingPresence } from '@/hooks/use-complaint-presence';
 
 interface Complaint {
   id: string;
@@ -21,17 +56,14 @@ interface Complaint {
   room: string | null;
   is_anonymous: boolean;
   created_at: string;
+  sla_due_at: string | null;
+  resolved_at: string | null;
+  reopen_count: number;
+  supporter_count: number;
   user_id: string | null;
-}
-
-interface Message {
-  id: string;
-  body: string;
-  sender_id: string | null;
-  created_at: string;
   profiles?: {
     name: string;
-  };
+  } | null;
 }
 
 function ComplaintDetailContent() {
@@ -39,34 +71,168 @@ function ComplaintDetailContent() {
   const navigate = useNavigate();
   const { user } = useAuth();
   const [complaint, setComplaint] = useState<Complaint | null>(null);
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [summary, setSummary] = useState<ComplaintSummary | null>(null);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [attachments, setAttachments] = useState<(AttachmentEntry & MessageAttachment)[]>([]);
+  const [calls, setCalls] = useState<CallEntry[]>([]);
+  const [profileNames, setProfileNames] = useState<Record<string, string>>({});
   const [newMessage, setNewMessage] = useState('');
+  const [messageFiles, setMessageFiles] = useState<File[]>([]);
+  const [composeMode, setComposeMode] = useState<'reply' | 'note'>('reply');
+  // Macro whose status/priority changes are applied when the composed reply is sent
+  const [activeMacro, setActiveMacro] = useState<ResponseMacro | null>(null);
+  const [applyingMacro, setApplyingMacro] = useState(false);
   const [loading, setLoading] = useState(true);
-  const [sending, setSending] = useState(false);
+  const [userRole, setUserRole] = useState<string | null>(null);
+  const [userName, setUserName] = useState<string | null>(null);
+  // Anonymous complaints have no user_id, so ask the server whether this user reported it
+  const [isReporter, setIsReporter] = useState(false);
+  const isManager = userRole === 'manager' || userRole === 'admin';
+  // Anonymous reporters appear to everyone, themselves included, as "Reporter"
+  const hideReporter = !!complaint?.is_anonymous;
+  const { messages, sendMessage, retryMessage, editMessage, retractMessage } = useMessageThread(
+    complaint?.id,
+    user ? {
+      id: user.id,
+      name: hideReporter && !isManager ? 'Reporter' : userName,
+      uploaderId: hideReporter && !isManager ? null : user.id,
+    } : null
+  );
+  const latestMessageAt = messages
+    .filter(m => !m.delivery)
+    .reduce<string | undefined>((latest, m) => (!latest || m.created_at > latest ? m.created_at : latest), undefined);
+  const { reporterReadAt, staffReadAt } = useReadReceipts(complaint?.id, latestMessageAt);
+  // Files the scan rejected are only ever shown to their uploader, and only as rejected
+  const isQuarantined = (attachment: MessageAttachment) => attachment.scan_status === 'quarantined';
+  const complaintAttachments = attachments.filter(a => !isQuarantined(a));
+  const quarantinedFiles = [
+    ...attachments.filter(isQuarantined),
+    ...messages.flatMap(m => m.attachments.filter(isQuarantined)),
+  ];
+  // The file limit covers the whole complaint, so only the remainder can go on a message
+  const attachmentSlots = Math.max(
+    0,
+    MAX_ATTACHMENTS - complaintAttachments.length
+      - messages.reduce((count, m) => count + m.attachments.filter(a => !isQuarantined(a)).length, 0)
+  );
+  // Join presence only once the role is known, so a manager never shows up as "Reporter"
+  const { viewers, typing, setTyping } = useComplaintPresence(
+    complaint?.id,
+    user && userRole ? {
+      id: hideReporter && !isManager ? null : user.id,
+      name: (hideReporter && !isManager ? 'Reporter' : userName) || 'Anonymous',
+      isStaff: isManager,
+    } : null
+  );
+  useHandlingPresence(isManager && user && complaint ? {
+    id: user.id,
+    name: userName || 'Manager',
+    complaintId: complaint.id,
+  } : null);
+
+  // Reopen dialog
+  const [reopenWindowHours, setReopenWindowHours] = useState(0);
+  const [reopenDialogOpen, setReopenDialogOpen] = useState(false);
+  const [reopenReason, setReopenReason] = useState('');
+  const [reopening, setReopening] = useState(false);
+  const [feedbackDialogOpen, setFeedbackDialogOpen] = useState(false);
+
+  // Editing and retracting own messages
+  const [editWindowMinutes, setEditWindowMinutes] = useState(0);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editBody, setEditBody] = useState('');
+  const [savingEdit, setSavingEdit] = useState(false);
+  const [retractMessageId, setRetractMessageId] = useState<string | null>(null);
+  const [retracting, setRetracting] = useState(false);
 
   useEffect(() => {
     fetchComplaintDetails();
   }, [id]);
 
+  useEffect(() => {
+    fetchUserRole();
+    fetchSetting('reopen_window_hours', 0).then(setReopenWindowHours);
+    fetchSetting('message_edit_window_minutes', 0).then(setEditWindowMinutes);
+  }, [user]);
+
+  const fetchUserRole = async () => {
+    const { data } = await supabase
+      .from('profiles')
+      .select('role, name')
+      .eq('id', user?.id)
+      .single();
+
+    setUserRole(data?.role ?? null);
+    setUserName(data?.name ?? null);
+  };
+
   const fetchComplaintDetails = async () => {
     try {
       const { data: complaintData, error: complaintError } = await supabase
         .from('complaints')
-        .select('*')
+        .select('*, profiles!complaints_user_id_fkey(name)')
         .eq('id', id)
-        .single();
+        .maybeSingle();
 
       if (complaintError) throw complaintError;
+
+      // Students who don't own the complaint only get the non-identifying summary
+      if (!complaintData) {
+        const { data: summaryData, error: summaryError } = await supabase
+          .rpc('get_complaint_summary', { _complaint_id: id });
+
+        if (summaryError) throw summaryError;
+        if (!summaryData?.length) throw new Error('Complaint not found');
+
+        setSummary(summaryData[0]);
+        return;
+      }
+
       setComplaint(complaintData);
 
-      const { data: messagesData, error: messagesError } = await supabase
-        .from('messages')
-        .select('*, profiles(name)')
-        .eq('complaint_id', id)
-        .order('created_at', { ascending: true });
+      const [reporterResult, historyResult, attachmentsResult, callsResult] = await Promise.all([
+        supabase.rpc('is_complaint_reporter', { _complaint_id: complaintData.id }),
+        supabase
+          .from('complaint_history')
+          .select('*, profiles!complaint_history_actor_id_fkey(name)')
+          .eq('complaint_id', id),
+        supabase
+          .from('attachments')
+          .select('id, file_name, file_path, mime_type, file_size, scan_status, uploader_id, created_at, profiles(name)')
+          .eq('complaint_id', id)
+          .is('message_id', null),
+        supabase
+          .from('calls')
+          .select('id, type, status, caller_id, callee_id, created_at, caller:profiles!calls_caller_id_fkey(name), callee:profiles!calls_callee_id_fkey(name)')
+          .eq('complaint_id', id),
+      ]);
+
+      if (reporterResult.error) throw reporterResult.error;
+      if (historyResult.error) throw historyResult.error;
+      if (attachmentsResult.error) throw attachmentsResult.error;
+      if (callsResult.error) throw callsResult.error;
+
+      setIsReporter(!!reporterResult.data);
+      setHistory(historyResult.data || []);
+      setAttachments(attachmentsResult.data || []);
+      setCalls(callsResult.data || []);
+
+      // Resolve the managers named in assignment changes
+      const managerIds = [...new Set(
+        (historyResult.data || [])
+          .filter(entry => entry.field === 'manager_id')
+          .flatMap(entry => [entry.old_value, entry.new_value])
+          .filter((value): value is string => !!value)
+      )];
+
+      if (managerIds.length > 0) {
+        const { data: profilesData } = await supabase
+          .from('profiles')
+          .select('id, name')
+          .in('id', managerIds);
 
-      if (messagesError) throw messagesError;
-      setMessages(messagesData || []);
+        setProfileNames(Object.fromEntries((profilesData || []).map(p => [p.id, p.name])));
+      }
     } catch (error: any) {
       toast.error('Failed to load complaint details');
       navigate('/dashboard');
@@ -75,31 +241,164 @@ function ComplaintDetailContent() {
     }
   };
 
-  const sendMessage = async () => {
-    if (!newMessage.trim() || !complaint) return;
-    
-    setSending(true);
+  const selectMacro = (macro: ResponseMacro) => {
+    if (!complaint) return;
+
+    setNewMessage(renderMacro(macro.body, {
+      title: complaint.title,
+      hub: complaint.hub,
+      room: complaint.room || '',
+      student_name: complaint.is_anonymous ? 'Reporter' : complaint.profiles?.name || 'there',
+    }));
+    setActiveMacro(macro);
+    setComposeMode('reply');
+  };
+
+  const sendMacro = async (macro: ResponseMacro) => {
+    if (!complaint) return;
+
+    setApplyingMacro(true);
     try {
-      const { error } = await supabase
-        .from('messages')
-        .insert({
-          complaint_id: complaint.id,
-          sender_id: user?.id,
-          body: newMessage.trim(),
-        });
+      const { error } = await supabase.rpc('apply_response_macro', {
+        _macro_id: macro.id,
+        _complaint_id: complaint.id,
+        _body: newMessage,
+      });
 
       if (error) throw error;
 
       setNewMessage('');
+      setActiveMacro(null);
+      if (macro.status || macro.priority) {
+        await fetchComplaintDetails();
+      }
+    } catch (error) {
+      toast.error(error.message || 'Failed to send macro');
+    } finally {
+      setApplyingMacro(false);
+    }
+  };
+
+  const handleSend = () => {
+    if (activeMacro) {
+      sendMacro(activeMacro);
+      return;
+    }
+    if (!newMessage.trim() && messageFiles.length === 0) return;
+
+    sendMessage(newMessage.trim(), {
+      isInternal: isManager && composeMode === 'note',
+      files: messageFiles,
+    });
+    setNewMessage('');
+    setMessageFiles([]);
+    setTyping(false);
+  };
+
+  const handleMessageFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFiles = Array.from(e.target.files || []);
+    e.target.value = '';
+    const prepared = await prepareAttachmentFiles(selectedFiles);
+    setMessageFiles(prev => addAttachmentFiles(prev, prepared, attachmentSlots));
+  };
+
+  const reopenComplaint = async () => {
+    if (!reopenReason.trim() || !complaint) return;
+
+    setReopening(true);
+    try {
+      const { error } = await supabase.rpc('reopen_complaint', {
+        _complaint_id: complaint.id,
+        _reason: reopenReason,
+      });
+
+      if (error) throw error;
+
+      setReopenDialogOpen(false);
+      setReopenReason('');
       await fetchComplaintDetails();
-      toast.success('Message sent');
-    } catch (error: any) {
-      toast.error('Failed to send message');
+      toast.success('Complaint reopened');
+    } catch (error) {
+      toast.error(error.message || 'Failed to reopen complaint');
+    } finally {
+      setReopening(false);
+    }
+  };
+
+  const startEditing = (message: ThreadMessage) => {
+    setEditingMessageId(message.id);
+    setEditBody(message.body);
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingMessageId || !editBody.trim()) return;
+
+    setSavingEdit(true);
+    try {
+      await editMessage(editingMessageId, editBody.trim());
+      setEditingMessageId(null);
+    } catch (error) {
+      toast.error(error.message || 'Failed to edit message');
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+
+  const handleRetract = async () => {
+    if (!retractMessageId) return;
+
+    setRetracting(true);
+    try {
+      await retractMessage(retractMessageId);
+      setRetractMessageId(null);
+    } catch (error) {
+      toast.error(error.message || 'Failed to retract message');
     } finally {
-      setSending(false);
+      setRetracting(false);
     }
   };
 
+  const isOwnMessage = (message: ThreadMessage) =>
+    message.sender_id === user?.id || (message.from_reporter && isReporter);
+  // Own replies are seen once the other side has opened the thread since they were sent
+  const isSeen = (message: ThreadMessage) => {
+    const readAt = isManager ? reporterReadAt : staffReadAt;
+    return isOwnMessage(message) && !message.is_internal && !message.delivery
+      && !!readAt && new Date(readAt) >= new Date(message.created_at);
+  };
+  // Mirrors the row security on messages; the server has the final say
+  const canModify = (message: ThreadMessage) =>
+    isOwnMessage(message) && !message.delivery && !message.retracted_at
+      && new Date(message.created_at).getTime() + editWindowMinutes * 60000 > Date.now();
+  const senderName = (message: ThreadMessage) =>
+    message.from_reporter && hideReporter ? 'Reporter' : message.profiles?.name || 'Anonymous';
+
+  // The reporter may reopen a resolved complaint until the reopen window closes
+  const reopenDeadline = complaint?.resolved_at
+    ? new Date(new Date(complaint.resolved_at).getTime() + reopenWindowHours * 3600000)
+    : null;
+  const awaitingConfirmation = !!complaint
+    && complaint.status === 'resolved'
+    && isReporter;
+  const canReopen = awaitingConfirmation
+    && !!reopenDeadline
+    && reopenDeadline.getTime() > Date.now();
+
+  const timeline = buildTimeline({ messages, history, attachments: complaintAttachments, calls });
+
+  // Files attached to the complaint itself and to delivered, unretracted messages
+  const galleryAttachments: GalleryAttachment[] = [
+    ...complaintAttachments.map(a => ({
+      ...a,
+      uploader: a.profiles?.name || (hideReporter ? 'Reporter' : 'Anonymous'),
+    })),
+    ...messages
+      .filter(m => !m.delivery && !m.retracted_at)
+      .flatMap(m => m.attachments
+        .filter(a => !isQuarantined(a))
+        .map(a => ({ ...a, uploader: senderName(m), created_at: m.created_at }))),
+  ].sort((a, b) => a.created_at.localeCompare(b.created_at));
+
   if (loading) {
     return (
       <div className="flex min-h-screen items-center justify-center">
@@ -108,20 +407,42 @@ function ComplaintDetailContent() {
     );
   }
 
+  const header = (
+    <header className="border-b bg-card">
+      <div className="container mx-auto flex h-16 items-center px-4">
+        <Button onClick={() => navigate('/dashboard')} variant="ghost" size="sm">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Dashboard
+        </Button>
+      </div>
+    </header>
+  );
+
   if (!complaint) {
-    return null;
+    if (!summary) {
+      return null;
+    }
+
+    return (
+      <div className="min-h-screen bg-background">
+        {header}
+        <main className="container mx-auto max-w-4xl p-4">
+          <ComplaintSummaryCard
+            summary={summary}
+            onSupportChange={(isSupporter) => setSummary({
+              ...summary,
+              is_supporter: isSupporter,
+              supporter_count: summary.supporter_count + (isSupporter ? 1 : -1),
+            })}
+          />
+        </main>
+      </div>
+    );
   }
 
   return (
     <div className="min-h-screen bg-background">
-      <header className="border-b bg-card">
-        <div className="container mx-auto flex h-16 items-center px-4">
-          <Button onClick={() => navigate('/dashboard')} variant="ghost" size="sm">
-            <ArrowLeft className="mr-2 h-4 w-4" />
-            Back to Dashboard
-          </Button>
-        </div>
-      </header>
+      {header}
 
       <main className="container mx-auto max-w-4xl p-4 space-y-6">
         <Card>
@@ -151,6 +472,12 @@ function ComplaintDetailContent() {
                 `}>
                   {complaint.priority.toUpperCase()} PRIORITY
                 </Badge>
+                <SlaBadge complaint={complaint} />
+                {isManager && complaint.reopen_count > 0 && (
+                  <Badge variant="outline" className="border-warning text-warning">
+                    REOPENED ×{complaint.reopen_count}
+                  </Badge>
+                )}
               </div>
             </div>
           </CardHeader>
@@ -164,71 +491,385 @@ function ComplaintDetailContent() {
                 <p className="text-sm font-medium text-muted-foreground">Location</p>
                 <p>{complaint.hub} {complaint.room ? `- ${complaint.room}` : ''}</p>
               </div>
+              {complaint.supporter_count > 0 && (
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">Also Affected</p>
+                  <p>{complaint.supporter_count} {complaint.supporter_count === 1 ? 'student' : 'students'}</p>
+                </div>
+              )}
+              {complaint.sla_due_at && (
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">Resolution Due</p>
+                  <p>{new Date(complaint.sla_due_at).toLocaleString()}</p>
+                </div>
+              )}
             </div>
             <div>
               <p className="text-sm font-medium text-muted-foreground mb-2">Description</p>
-              <p className="text-sm whitespace-pre-wrap">{complaint.description}</p>
+              <Markdown source={complaint.description} />
             </div>
+            {awaitingConfirmation && (
+              <div className="flex items-center justify-between gap-4 rounded-lg border border-status-resolved p-4">
+                <div>
+                  <p className="text-sm font-medium">This complaint was marked as resolved</p>
+                  <p className="text-sm text-muted-foreground">
+                    {canReopen
+                      ? `Please confirm the fix and rate how it was handled. Not fixed? You can reopen it until ${reopenDeadline!.toLocaleString()}.`
+                      : 'Please confirm the fix and rate how it was handled.'}
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  <Button size="sm" onClick={() => setFeedbackDialogOpen(true)}>
+                    Confirm & Rate
+                  </Button>
+                  {canReopen && (
+                    <Button variant="outline" size="sm" onClick={() => setReopenDialogOpen(true)}>
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                      Reopen
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
           </CardContent>
         </Card>
 
+        {quarantinedFiles.length > 0 && (
+          <div className="flex items-start gap-3 rounded-lg border border-destructive p-4">
+            <AlertCircle className="mt-0.5 h-4 w-4 shrink-0 text-destructive" />
+            <div>
+              <p className="text-sm font-medium">Some of your files were rejected</p>
+              <p className="text-sm text-muted-foreground">
+                {quarantinedFiles.map(a => a.file_name).join(', ')} did not pass the security check and
+                {quarantinedFiles.length === 1 ? ' was' : ' were'} not shared. Only you can see this.
+              </p>
+            </div>
+          </div>
+        )}
+
+        <AttachmentGallery attachments={galleryAttachments} />
+
         <Card>
           <CardHeader>
             <CardTitle>Messages & Updates</CardTitle>
             <CardDescription>
-              Communication thread for this complaint
+              Messages and activity for this complaint
             </CardDescription>
+            {viewers.length > 0 && (
+              <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                <Eye className="h-4 w-4" />
+                Also viewing: {viewers.map(v => v.name).join(', ')}
+              </p>
+            )}
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="space-y-4 max-h-96 overflow-y-auto">
-              {messages.length === 0 ? (
+              {timeline.length === 0 ? (
                 <p className="text-center text-muted-foreground py-8">
                   No messages yet. Start the conversation below.
                 </p>
               ) : (
-                messages.map((message) => (
+                timeline.map((item) => item.kind !== 'message' ? (
+                  <TimelineEvent key={`${item.kind}-${item.id}`} item={item} profileNames={profileNames} />
+                ) : (
                   <div
-                    key={message.id}
-                    className={`flex ${message.sender_id === user?.id ? 'justify-end' : 'justify-start'}`}
+                    key={item.id}
+                    className={`flex ${isOwnMessage(item.message) ? 'justify-end' : 'justify-start'}`}
                   >
                     <div className={`max-w-[80%] rounded-lg p-3 ${
-                      message.sender_id === user?.id
-                        ? 'bg-primary text-primary-foreground'
-                        : 'bg-muted'
+                      item.message.is_internal
+                        ? 'border border-dashed border-warning bg-warning/10'
+                        : isOwnMessage(item.message)
+                          ? 'bg-primary text-primary-foreground'
+                          : 'bg-muted'
+                    } ${item.message.delivery === 'pending' ? 'opacity-70' : ''} ${
+                      item.message.delivery === 'failed' ? 'ring-2 ring-destructive' : ''
                     }`}>
-                      <p className="text-xs font-medium mb-1">
-                        {message.profiles?.name || 'Anonymous'}
-                      </p>
-                      <p className="text-sm">{message.body}</p>
-                      <p className="text-xs opacity-70 mt-1">
-                        {new Date(message.created_at).toLocaleString()}
+                      <p className="flex items-center gap-1 text-xs font-medium mb-1">
+                        {item.message.is_internal && (
+                          <>
+                            <Lock className="h-3 w-3 text-warning" />
+                            <span className="text-warning">Internal note</span>
+                            <span>·</span>
+                          </>
+                        )}
+                        {senderName(item.message)}
                       </p>
+                      {item.message.retracted_at ? (
+                        <p className="text-sm italic opacity-70">This message was retracted</p>
+                      ) : editingMessageId === item.message.id ? (
+                        <div className="space-y-2">
+                          <Textarea
+                            value={editBody}
+                            onChange={(e) => setEditBody(e.target.value)}
+                            rows={3}
+                            className="bg-background text-foreground"
+                          />
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="secondary"
+                              size="sm"
+                              className="h-7"
+                              onClick={() => setEditingMessageId(null)}
+                              disabled={savingEdit}
+                            >
+                              Cancel
+                            </Button>
+                            <Button
+                              size="sm"
+                              className="h-7"
+                              onClick={handleSaveEdit}
+                              disabled={savingEdit || !editBody.trim()}
+                            >
+                              {savingEdit ? 'Saving...' : 'Save'}
+                            </Button>
+                          </div>
+                        </div>
+                      ) : (
+                        <>
+                          {item.message.body && (
+                            <Markdown source={item.message.body} />
+                          )}
+                          <MessageAttachments
+                            attachments={item.message.attachments.filter(a => !isQuarantined(a))}
+                            pendingFiles={item.message.pendingFiles}
+                            failed={item.message.delivery === 'failed'}
+                          />
+                        </>
+                      )}
+                      {item.message.delivery === 'failed' ? (
+                        <div className="mt-1 flex items-center gap-2 text-xs">
+                          <AlertCircle className="h-3 w-3" />
+                          <span>Not sent</span>
+                          <Button
+                            variant="secondary"
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            onClick={() => retryMessage(item.message.id)}
+                          >
+                            <RotateCcw className="mr-1 h-3 w-3" />
+                            Retry
+                          </Button>
+                        </div>
+                      ) : (
+                        <p className="text-xs opacity-70 mt-1">
+                          {item.message.delivery === 'pending'
+                            ? 'Sending...'
+                            : new Date(item.message.created_at).toLocaleString()}
+                          {item.message.edited_at && !item.message.retracted_at && (
+                            <>
+                              {' · '}
+                              {isManager
+                                ? <MessageRevisions messageId={item.message.id} label="edited" />
+                                : 'edited'}
+                            </>
+                          )}
+                          {item.message.retracted_at && isManager && (
+                            <>
+                              {' · '}
+                              <MessageRevisions messageId={item.message.id} label="retracted" />
+                            </>
+                          )}
+                          {isSeen(item.message) && ' · Seen'}
+                          {canModify(item.message) && editingMessageId !== item.message.id && (
+                            <span className="ml-2 inline-flex gap-1 align-middle">
+                              <button
+                                type="button"
+                                aria-label="Edit message"
+                                onClick={() => startEditing(item.message)}
+                              >
+                                <Pencil className="h-3 w-3" />
+                              </button>
+                              <button
+                                type="button"
+                                aria-label="Retract message"
+                                onClick={() => setRetractMessageId(item.message.id)}
+                              >
+                                <Trash2 className="h-3 w-3" />
+                              </button>
+                            </span>
+                          )}
+                        </p>
+                      )}
                     </div>
                   </div>
                 ))
               )}
             </div>
 
+            {isManager && (
+              <div className="flex items-center justify-between gap-2">
+                <ToggleGroup
+                  type="single"
+                  size="sm"
+                  value={composeMode}
+                  onValueChange={(value) => value && setComposeMode(value as 'reply' | 'note')}
+                  disabled={!!activeMacro}
+                  className="justify-start"
+                >
+                  <ToggleGroupItem value="reply">
+                    <Send className="mr-2 h-4 w-4" />
+                    Reply
+                  </ToggleGroupItem>
+                  <ToggleGroupItem value="note">
+                    <Lock className="mr-2 h-4 w-4" />
+                    Internal note
+                  </ToggleGroupItem>
+                </ToggleGroup>
+                <MacroPicker onSelect={selectMacro} disabled={messageFiles.length > 0 || applyingMacro} />
+              </div>
+            )}
+
+            {activeMacro && (
+              <div className="flex items-center justify-between gap-2 rounded-md border bg-muted/50 px-3 py-2 text-sm">
+                <span>
+                  Macro <span className="font-medium">{activeMacro.name}</span>
+                  {activeMacro.status && ` · sets status to ${STATUS_LABELS[activeMacro.status]}`}
+                  {activeMacro.priority && ` · sets priority to ${activeMacro.priority}`}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => setActiveMacro(null)}
+                  title="Send as a plain reply"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            )}
+
+            {typing.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {typing.map(v => v.name).join(', ')} {typing.length === 1 ? 'is' : 'are'} typing...
+              </p>
+            )}
+
             <div className="flex gap-2">
-              <Textarea
+              <MarkdownTextarea
                 value={newMessage}
-                onChange={(e) => setNewMessage(e.target.value)}
-                placeholder="Type your message..."
+                onChange={(e) => {
+                  setNewMessage(e.target.value);
+                  // Internal notes are not announced, since the reporter shares this channel
+                  if (!(isManager && composeMode === 'note')) setTyping(!!e.target.value);
+                }}
+                placeholder={composeMode === 'note' && isManager
+                  ? 'Write a note for other managers. The student will not see it.'
+                  : 'Type your message...'}
                 rows={3}
-                disabled={sending}
+                className={composeMode === 'note' && isManager ? 'border-dashed border-warning' : ''}
               />
-              <Button
-                onClick={sendMessage}
-                disabled={sending || !newMessage.trim()}
-                size="icon"
-                className="shrink-0"
-              >
-                <Send className="h-4 w-4" />
-              </Button>
+              <div className="flex shrink-0 flex-col gap-2">
+                <Input
+                  type="file"
+                  multiple
+                  accept={ACCEPTED_ATTACHMENT_TYPES}
+                  onChange={handleMessageFileChange}
+                  className="hidden"
+                  id="message-file-upload"
+                />
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => document.getElementById('message-file-upload')?.click()}
+                  disabled={messageFiles.length >= attachmentSlots || !!activeMacro}
+                  title="Attach files"
+                >
+                  <Paperclip className="h-4 w-4" />
+                </Button>
+                <Button
+                  onClick={handleSend}
+                  disabled={applyingMacro || (!newMessage.trim() && messageFiles.length === 0)}
+                  size="icon"
+                >
+                  <Send className="h-4 w-4" />
+                </Button>
+              </div>
             </div>
+
+            {messageFiles.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {messageFiles.map((file, index) => (
+                  <div key={index} className="flex items-center gap-1 rounded-md border py-1 pl-2 pr-1 text-sm">
+                    <Paperclip className="h-3 w-3 text-muted-foreground" />
+                    <span className="max-w-[12rem] truncate">{file.name}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => setMessageFiles(prev => prev.filter((_, i) => i !== index))}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+                <span className="self-center text-xs text-muted-foreground">
+                  {messageFiles.length}/{attachmentSlots} files
+                </span>
+              </div>
+            )}
           </CardContent>
         </Card>
       </main>
+
+      <ResolutionFeedbackDialog
+        complaint={complaint}
+        canReject={canReopen}
+        open={feedbackDialogOpen}
+        onOpenChange={setFeedbackDialogOpen}
+        onSubmitted={fetchComplaintDetails}
+      />
+
+      {/* Reopen Dialog */}
+      <Dialog open={reopenDialogOpen} onOpenChange={setReopenDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reopen Complaint</DialogTitle>
+            <DialogDescription>
+              Tell the team why the issue is not resolved. Your reason will be posted to the thread.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            <Label htmlFor="reopen-reason">Reason *</Label>
+            <Textarea
+              id="reopen-reason"
+              value={reopenReason}
+              onChange={(e) => setReopenReason(e.target.value)}
+              placeholder="What is still not working?"
+              rows={4}
+              disabled={reopening}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReopenDialogOpen(false)} disabled={reopening}>
+              Cancel
+            </Button>
+            <Button onClick={reopenComplaint} disabled={reopening || !reopenReason.trim()}>
+              {reopening ? 'Reopening...' : 'Reopen Complaint'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Retract Dialog */}
+      <Dialog open={!!retractMessageId} onOpenChange={(open) => !open && setRetractMessageId(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Retract Message</DialogTitle>
+            <DialogDescription>
+              The message and its attachments will be removed from the thread. Managers can still see what it said.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRetractMessageId(null)} disabled={retracting}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleRetract} disabled={retracting}>
+              {retracting ? 'Retracting...' : 'Retract Message'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -5,9 +5,14 @@ import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Plus, LogOut, FileText, Clock, CheckCircle2, AlertCircle } from 'lucide-react';
+import { Plus, LogOut, FileText, Clock, CheckCircle2, AlertCircle, ThumbsUp } from 'lucide-react';
 import { toast } from 'sonner';
 import { ProtectedRoute } from '@/components/ProtectedRoute';
+import { ResolutionFeedbackDialog } from '@/components/ResolutionFeedbackDialog';
+import { StatusBadge } from '@/components/StatusBadge';
+import { Database } from '@/integrations/supabase/types';
+import { fetchSetting } from '@/lib/settings';
+import { fetchUnreadCounts } from '@/lib/unread';
 
 interface Complaint {
   id: string;
@@ -16,24 +21,34 @@ interface Complaint {
   priority: string;
   status: string;
   created_at: string;
+  resolved_at: string | null;
   hub: string;
 }
 
+type SupportedComplaint = Database['public']['Functions']['get_supported_complaints']['Returns'][number];
+
 function DashboardContent() {
   const { user, signOut } = useAuth();
   const navigate = useNavigate();
   const [complaints, setComplaints] = useState<Complaint[]>([]);
+  const [supported, setSupported] = useState<SupportedComplaint[]>([]);
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
   const [loading, setLoading] = useState(true);
   const [stats, setStats] = useState({ total: 0, new: 0, inProgress: 0, resolved: 0 });
   const [profile, setProfile] = useState<any>(null);
+  const [reopenWindowHours, setReopenWindowHours] = useState(0);
+  const [feedbackComplaint, setFeedbackComplaint] = useState<Complaint | null>(null);
 
   useEffect(() => {
     checkUserRole();
+    fetchSetting('reopen_window_hours', 0).then(setReopenWindowHours);
   }, [user]);
 
   useEffect(() => {
     if (profile && profile.role === 'student') {
       fetchComplaints();
+      fetchSupportedComplaints();
+      fetchUnreadCounts().then(setUnreadCounts);
     }
   }, [profile]);
 
@@ -85,6 +100,16 @@ function DashboardContent() {
     }
   };
 
+  const fetchSupportedComplaints = async () => {
+    const { data, error } = await supabase.rpc('get_supported_complaints');
+
+    if (error) {
+      console.error('Failed to load supported complaints:', error);
+      return;
+    }
+    setSupported(data || []);
+  };
+
   const handleSignOut = async () => {
     await signOut();
     toast.success('Signed out successfully');
@@ -114,6 +139,17 @@ function DashboardContent() {
     );
   };
 
+  // Resolved complaints wait for the student to confirm the fix
+  const awaitingConfirmation = complaints.filter(c => c.status === 'resolved');
+
+  // Complaints with unread messages first, newest first within each group
+  const sortedComplaints = [...complaints].sort((a, b) => Number(!!unreadCounts[b.id]) - Number(!!unreadCounts[a.id]));
+  const unreadComplaints = complaints.filter(c => unreadCounts[c.id]).length;
+
+  const canReject = (complaint: Complaint) =>
+    !!complaint.resolved_at &&
+    new Date(complaint.resolved_at).getTime() + reopenWindowHours * 3600000 > Date.now();
+
   const getPriorityBadge = (priority: string) => {
     const variants: Record<string, string> = {
       low: 'bg-muted text-muted-foreground',
@@ -195,12 +231,38 @@ function DashboardContent() {
           </Card>
         </div>
 
+        {/* Awaiting Confirmation */}
+        {awaitingConfirmation.length > 0 && (
+          <Card className="border-status-resolved">
+            <CardHeader>
+              <CardTitle>Was your issue fixed?</CardTitle>
+              <CardDescription>
+                These complaints were marked as resolved. Confirm the fix and rate how they were handled.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {awaitingConfirmation.map((complaint) => (
+                <div
+                  key={complaint.id}
+                  className="flex items-center justify-between gap-4 rounded-lg border p-3"
+                >
+                  <span className="font-medium">{complaint.title}</span>
+                  <Button size="sm" onClick={() => setFeedbackComplaint(complaint)}>
+                    Confirm & Rate
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Complaints List */}
         <Card>
           <CardHeader>
             <CardTitle>Your Complaints</CardTitle>
             <CardDescription>
               Track the status of all your submitted complaints
+              {unreadComplaints > 0 && ` · ${unreadComplaints} with new messages`}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -218,7 +280,7 @@ function DashboardContent() {
               </div>
             ) : (
               <div className="space-y-4">
-                {complaints.map((complaint) => (
+                {sortedComplaints.map((complaint) => (
                   <div
                     key={complaint.id}
                     onClick={() => navigate(`/complaint/${complaint.id}`)}
@@ -229,6 +291,11 @@ function DashboardContent() {
                         <h3 className="font-semibold">{complaint.title}</h3>
                         {getStatusBadge(complaint.status)}
                         {getPriorityBadge(complaint.priority)}
+                        {unreadCounts[complaint.id] > 0 && (
+                          <Badge className="bg-primary text-primary-foreground">
+                            {unreadCounts[complaint.id]} new
+                          </Badge>
+                        )}
                       </div>
                       <div className="flex items-center gap-4 text-sm text-muted-foreground">
                         <span className="capitalize">{complaint.category.replace('_', ' ')}</span>
@@ -244,7 +311,47 @@ function DashboardContent() {
             )}
           </CardContent>
         </Card>
+
+        {/* Supported Complaints */}
+        {supported.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Complaints You Support</CardTitle>
+              <CardDescription>
+                Issues reported by other students that affect you too
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {supported.map((complaint) => (
+                <div
+                  key={complaint.id}
+                  onClick={() => navigate(`/complaint/${complaint.id}`)}
+                  className="flex cursor-pointer items-center justify-between gap-4 rounded-lg border p-3 transition-colors hover:bg-accent"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{complaint.title}</p>
+                    <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                      <span>{complaint.hub}</span>
+                      <span>•</span>
+                      <ThumbsUp className="h-3 w-3" />
+                      <span>{complaint.supporter_count}</span>
+                    </p>
+                  </div>
+                  <StatusBadge status={complaint.status} className="shrink-0" />
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
       </main>
+
+      <ResolutionFeedbackDialog
+        complaint={feedbackComplaint}
+        canReject={!!feedbackComplaint && canReject(feedbackComplaint)}
+        open={!!feedbackComplaint}
+        onOpenChange={(open) => !open && setFeedbackComplaint(null)}
+        onSubmitted={fetchComplaints}
+      />
     </div>
   );
 }
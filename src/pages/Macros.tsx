@@ -0,0 +1,321 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/lib/auth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ArrowLeft, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { ProtectedRoute } from '@/components/ProtectedRoute';
+import { Constants } from '@/integrations/supabase/types';
+import { STATUS_LABELS } from '@/lib/complaint-status';
+import { MACRO_PLACEHOLDERS, ResponseMacro, fetchMacros, macroUsageCount } from '@/lib/macros';
+
+const NONE = 'none';
+
+const EMPTY_FORM = { name: '', body: '', status: NONE, priority: NONE, isShared: false };
+
+function MacrosContent() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [loading, setLoading] = useState(true);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [macros, setMacros] = useState<ResponseMacro[]>([]);
+
+  // Create/edit dialog
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    checkManagerAccess();
+  }, [user]);
+
+  const checkManagerAccess = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', user?.id)
+        .single();
+
+      if (error) throw error;
+
+      if (data.role !== 'manager' && data.role !== 'admin') {
+        toast.error('Access denied. Manager role required.');
+        navigate('/dashboard');
+        return;
+      }
+
+      setIsAdmin(data.role === 'admin');
+      await loadMacros();
+      setLoading(false);
+    } catch (error) {
+      toast.error('Failed to verify access');
+      navigate('/dashboard');
+    }
+  };
+
+  const loadMacros = async () => {
+    try {
+      setMacros(await fetchMacros());
+    } catch (error) {
+      toast.error('Failed to load macros');
+    }
+  };
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (macro: ResponseMacro) => {
+    setEditingId(macro.id);
+    setForm({
+      name: macro.name,
+      body: macro.body,
+      status: macro.status ?? NONE,
+      priority: macro.priority ?? NONE,
+      isShared: macro.is_shared,
+    });
+    setDialogOpen(true);
+  };
+
+  const saveMacro = async () => {
+    if (!form.name.trim() || !form.body.trim() || !user) return;
+
+    const values = {
+      name: form.name.trim(),
+      body: form.body.trim(),
+      status: form.status === NONE ? null : form.status as ResponseMacro['status'],
+      priority: form.priority === NONE ? null : form.priority as ResponseMacro['priority'],
+      is_shared: form.isShared,
+    };
+
+    setSaving(true);
+    try {
+      const { error } = editingId
+        ? await supabase.from('response_macros').update(values).eq('id', editingId)
+        : await supabase.from('response_macros').insert({ ...values, owner_id: user.id });
+
+      if (error) throw error;
+
+      setDialogOpen(false);
+      toast.success(editingId ? 'Macro updated' : 'Macro created');
+      await loadMacros();
+    } catch (error) {
+      toast.error('Failed to save macro');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteMacro = async (id: string) => {
+    try {
+      const { error } = await supabase.from('response_macros').delete().eq('id', id);
+      if (error) throw error;
+
+      setMacros(prev => prev.filter(m => m.id !== id));
+      toast.success('Macro deleted');
+    } catch (error) {
+      toast.error('Failed to delete macro');
+    }
+  };
+
+  const canEdit = (macro: ResponseMacro) => isAdmin || macro.owner_id === user?.id;
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto flex h-16 items-center px-4">
+          <Button onClick={() => navigate('/manager/dashboard')} variant="ghost" size="sm">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto p-4 space-y-6">
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4">
+            <div>
+              <CardTitle>Macros</CardTitle>
+              <CardDescription>
+                Canned replies you can insert from a complaint's message box. Shared macros are available to every manager.
+              </CardDescription>
+            </div>
+            <Button onClick={openCreate}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Macro
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {macros.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">
+                No macros yet. Create one for a reply you send often.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Also Sets</TableHead>
+                    <TableHead>Visibility</TableHead>
+                    <TableHead>Uses</TableHead>
+                    <TableHead className="w-24" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {macros.map((macro) => (
+                    <TableRow key={macro.id}>
+                      <TableCell>
+                        <p className="font-medium">{macro.name}</p>
+                        <p className="max-w-md truncate text-sm text-muted-foreground">{macro.body}</p>
+                      </TableCell>
+                      <TableCell className="space-x-1">
+                        {macro.status && <Badge variant="outline">{STATUS_LABELS[macro.status]}</Badge>}
+                        {macro.priority && <Badge variant="outline" className="capitalize">{macro.priority} priority</Badge>}
+                        {!macro.status && !macro.priority && <span className="text-sm text-muted-foreground">—</span>}
+                      </TableCell>
+                      <TableCell>
+                        {macro.is_shared ? (
+                          <Badge variant="secondary">Shared · {macro.profiles?.name || 'Unknown'}</Badge>
+                        ) : (
+                          <Badge variant="outline">Personal</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{macroUsageCount(macro)}</TableCell>
+                      <TableCell className="text-right">
+                        {canEdit(macro) && (
+                          <>
+                            <Button variant="ghost" size="sm" onClick={() => openEdit(macro)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => deleteMacro(macro.id)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Macro' : 'New Macro'}</DialogTitle>
+            <DialogDescription>
+              Placeholders are filled in from the complaint: {MACRO_PLACEHOLDERS.map(p => `{{${p}}}`).join(', ')}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="macro-name">Name *</Label>
+              <Input
+                id="macro-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Raised with facilities"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="macro-body">Message *</Label>
+              <Textarea
+                id="macro-body"
+                value={form.body}
+                onChange={(e) => setForm({ ...form, body: e.target.value })}
+                placeholder="Hi {{student_name}}, we've raised the issue in {{hub}} with facilities."
+                rows={5}
+              />
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Set status</Label>
+                <Select value={form.status} onValueChange={(status) => setForm({ ...form, status })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Don't change</SelectItem>
+                    {Constants.public.Enums.complaint_status.map(status => (
+                      <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Set priority</Label>
+                <Select value={form.priority} onValueChange={(priority) => setForm({ ...form, priority })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Don't change</SelectItem>
+                    {Constants.public.Enums.complaint_priority.map(priority => (
+                      <SelectItem key={priority} value={priority} className="capitalize">{priority}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="macro-shared"
+                checked={form.isShared}
+                onCheckedChange={(isShared) => setForm({ ...form, isShared })}
+              />
+              <Label htmlFor="macro-shared">Share with all managers</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={saveMacro} disabled={saving || !form.name.trim() || !form.body.trim()}>
+              {saving ? 'Saving...' : 'Save Macro'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+export default function Macros() {
+  return (
+    <ProtectedRoute>
+      <MacrosContent />
+    </ProtectedRoute>
+  );
+}
@@ -6,14 +6,24 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { LogOut, Search, Filter, Users, Clock, CheckCircle2, AlertCircle } from 'lucide-react';
+import { LogOut, Search, Filter, Users, Clock, CheckCircle2, AlertCircle, Settings, MessageSquareText, Eye } from 'lucide-react';
 import { toast } from 'sonner';
 import { ProtectedRoute } from '@/components/ProtectedRoute';
+import { SlaBadge } from '@/components/SlaBadge';
+import { getSlaState } from '@/lib/sla';
+import { STATUS_LABELS, StatusTransition } from '@/lib/complaint-status';
+import { Coverage, coversComplaint } from '@/lib/coverage';
+import { fetchUnreadCounts } from '@/lib/unread';
+import { useHandlingPresence } from '@/hooks/use-complaint-presence';
 import {
   Dialog,
   DialogContent,
   DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
@@ -25,10 +35,15 @@ interface Complaint {
   priority: string;
   status: string;
   created_at: string;
+  sla_due_at: string | null;
+  escalation_level: number;
+  reopen_count: number;
+  supporter_count: number;
   hub: string;
   is_anonymous: boolean;
   user_id: string | null;
   manager_id: string | null;
+  assignment_method: string | null;
   profiles?: {
     name: string;
   };
@@ -38,8 +53,15 @@ interface Profile {
   id: string;
   name: string;
   role: string;
+  is_available?: boolean;
 }
 
+const ASSIGNMENT_METHOD_LABELS: Record<string, string> = {
+  round_robin: 'round robin',
+  least_loaded: 'least open load',
+  rule: 'assignment rule',
+};
+
 function ManagerDashboardContent() {
   const { user, signOut } = useAuth();
   const navigate = useNavigate();
@@ -49,31 +71,46 @@ function ManagerDashboardContent() {
   const [profile, setProfile] = useState<Profile | null>(null);
   const [managers, setManagers] = useState<Profile[]>([]);
   const [stats, setStats] = useState({ total: 0, new: 0, inProgress: 0, resolved: 0 });
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+  // Other managers who currently have a complaint open
+  const handlers = useHandlingPresence(profile ? { id: profile.id, name: profile.name } : null);
   
   // Filters
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [priorityFilter, setPriorityFilter] = useState('all');
   const [hubFilter, setHubFilter] = useState('all');
+  const [sortOrder, setSortOrder] = useState('newest');
+  const [areaFilter, setAreaFilter] = useState('all');
+  const [coverage, setCoverage] = useState<Coverage[]>([]);
   
   // Assignment dialog
   const [assignDialogOpen, setAssignDialogOpen] = useState(false);
   const [selectedComplaint, setSelectedComplaint] = useState<Complaint | null>(null);
+  const [showAllManagers, setShowAllManagers] = useState(false);
+
+  // Status transitions and the note dialog for transitions that require one
+  const [transitions, setTransitions] = useState<StatusTransition[]>([]);
+  const [pendingTransition, setPendingTransition] = useState<{ complaint: Complaint; status: string } | null>(null);
+  const [statusNote, setStatusNote] = useState('');
 
   useEffect(() => {
     checkManagerAccess();
     fetchManagers();
+    fetchTransitions();
+    fetchCoverage();
   }, [user]);
 
   useEffect(() => {
     if (profile) {
       fetchComplaints();
+      fetchUnreadCounts().then(setUnreadCounts);
     }
   }, [profile]);
 
   useEffect(() => {
     applyFilters();
-  }, [complaints, searchQuery, statusFilter, priorityFilter, hubFilter]);
+  }, [complaints, searchQuery, statusFilter, priorityFilter, hubFilter, sortOrder, areaFilter, coverage, unreadCounts]);
 
   const checkManagerAccess = async () => {
     try {
@@ -112,6 +149,37 @@ function ManagerDashboardContent() {
     }
   };
 
+  const fetchTransitions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('complaint_status_transitions')
+        .select('*');
+
+      if (error) throw error;
+      setTransitions(data || []);
+    } catch (error) {
+      console.error('Failed to load status transitions:', error);
+    }
+  };
+
+  const fetchCoverage = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('manager_coverage')
+        .select('manager_id, hub, category');
+
+      if (error) throw error;
+
+      setCoverage(data || []);
+      // Default to the complaints in my area when I have one
+      if (data?.some(c => c.manager_id === user?.id)) {
+        setAreaFilter('mine');
+      }
+    } catch (error) {
+      console.error('Failed to load coverage:', error);
+    }
+  };
+
   const fetchComplaints = async () => {
     try {
       const { data, error } = await supabase
@@ -148,6 +216,11 @@ function ManagerDashboardContent() {
       );
     }
 
+    // Area filter
+    if (areaFilter === 'mine' && user) {
+      filtered = filtered.filter(c => coversComplaint(coverage, user.id, c));
+    }
+
     // Status filter
     if (statusFilter !== 'all') {
       filtered = filtered.filter(c => c.status === statusFilter);
@@ -163,22 +236,56 @@ function ManagerDashboardContent() {
       filtered = filtered.filter(c => c.hub === hubFilter);
     }
 
+    // Time remaining: soonest deadline first, complaints without a running SLA last
+    if (sortOrder === 'sla') {
+      const remaining = (c: Complaint) => {
+        const state = getSlaState(c);
+        return state === 'none' || state === 'stopped'
+          ? Infinity
+          : new Date(c.sla_due_at!).getTime();
+      };
+      filtered.sort((a, b) => remaining(a) - remaining(b));
+    } else if (sortOrder === 'supporters') {
+      filtered.sort((a, b) => b.supporter_count - a.supporter_count);
+    } else if (sortOrder === 'unread') {
+      // Stable sort keeps the newest-first order within each group
+      filtered.sort((a, b) => Number(!!unreadCounts[b.id]) - Number(!!unreadCounts[a.id]));
+    }
+
     setFilteredComplaints(filtered);
   };
 
-  const updateComplaintStatus = async (complaintId: string, newStatus: string) => {
+  const getNextStatuses = (status: string) =>
+    transitions.filter(t => t.from_status === status);
+
+  const requestStatusChange = (complaint: Complaint, newStatus: string) => {
+    const transition = getNextStatuses(complaint.status).find(t => t.to_status === newStatus);
+    if (!transition) return;
+
+    if (transition.requires_note) {
+      setStatusNote('');
+      setPendingTransition({ complaint, status: newStatus });
+      return;
+    }
+
+    updateComplaintStatus(complaint.id, newStatus);
+  };
+
+  const updateComplaintStatus = async (complaintId: string, newStatus: string, note?: string) => {
     try {
-      const { error } = await supabase
-        .from('complaints')
-        .update({ status: newStatus as any })
-        .eq('id', complaintId);
+      const { error } = await supabase.rpc('transition_complaint_status', {
+        _complaint_id: complaintId,
+        _status: newStatus as any,
+        _note: note,
+      });
 
       if (error) throw error;
 
       toast.success('Status updated successfully');
+      setPendingTransition(null);
       fetchComplaints();
     } catch (error: any) {
-      toast.error('Failed to update status');
+      toast.error(error.message || 'Failed to update status');
     }
   };
 
@@ -186,7 +293,7 @@ function ManagerDashboardContent() {
     try {
       const { error } = await supabase
         .from('complaints')
-        .update({ manager_id: managerId })
+        .update({ manager_id: managerId, assignment_method: 'manual', assignment_rule_id: null })
         .eq('id', complaintId);
 
       if (error) throw error;
@@ -199,6 +306,22 @@ function ManagerDashboardContent() {
     }
   };
 
+  const toggleAvailability = async (isAvailable: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ is_available: isAvailable })
+        .eq('id', user?.id);
+
+      if (error) throw error;
+
+      setProfile(prev => prev && { ...prev, is_available: isAvailable });
+      toast.success(isAvailable ? 'You will receive new complaints' : 'You will not receive new complaints');
+    } catch (error) {
+      toast.error('Failed to update availability');
+    }
+  };
+
   const handleSignOut = async () => {
     await signOut();
     toast.success('Signed out successfully');
@@ -237,6 +360,14 @@ function ManagerDashboardContent() {
 
   const uniqueHubs = [...new Set(complaints.map(c => c.hub))];
 
+  // Managers covering the selected complaint; the rest are shown on request
+  const coveringManagers = selectedComplaint
+    ? managers.filter(m => coversComplaint(coverage, m.id, selectedComplaint))
+    : [];
+  const assignableManagers = showAllManagers || coveringManagers.length === 0
+    ? managers
+    : coveringManagers;
+
   if (loading) {
     return (
       <div className="flex min-h-screen items-center justify-center">
@@ -255,10 +386,30 @@ function ManagerDashboardContent() {
               {profile?.role === 'admin' ? 'Administrator' : 'Manager'} View
             </p>
           </div>
-          <Button onClick={handleSignOut} variant="ghost" size="sm">
-            <LogOut className="mr-2 h-4 w-4" />
-            Sign Out
-          </Button>
+          <div className="flex items-center gap-2">
+            <div className="flex items-center gap-2 mr-2">
+              <Switch
+                id="availability"
+                checked={profile?.is_available ?? true}
+                onCheckedChange={toggleAvailability}
+              />
+              <Label htmlFor="availability" className="text-sm">Available</Label>
+            </div>
+            <Button onClick={() => navigate('/manager/macros')} variant="outline" size="sm">
+              <MessageSquareText className="mr-2 h-4 w-4" />
+              Macros
+            </Button>
+            {profile?.role === 'admin' && (
+              <Button onClick={() => navigate('/admin/settings')} variant="outline" size="sm">
+                <Settings className="mr-2 h-4 w-4" />
+                Admin Settings
+              </Button>
+            )}
+            <Button onClick={handleSignOut} variant="ghost" size="sm">
+              <LogOut className="mr-2 h-4 w-4" />
+              Sign Out
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -312,7 +463,7 @@ function ManagerDashboardContent() {
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="grid gap-4 md:grid-cols-4">
+            <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-6">
               <div className="relative">
                 <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
                 <Input
@@ -323,6 +474,16 @@ function ManagerDashboardContent() {
                 />
               </div>
               
+              <Select value={areaFilter} onValueChange={setAreaFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="mine">My Area</SelectItem>
+                  <SelectItem value="all">All Areas</SelectItem>
+                </SelectContent>
+              </Select>
+
               <Select value={statusFilter} onValueChange={setStatusFilter}>
                 <SelectTrigger>
                   <SelectValue placeholder="All Statuses" />
@@ -360,6 +521,18 @@ function ManagerDashboardContent() {
                   ))}
                 </SelectContent>
               </Select>
+
+              <Select value={sortOrder} onValueChange={setSortOrder}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Sort by" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="newest">Newest First</SelectItem>
+                  <SelectItem value="sla">Time Remaining</SelectItem>
+                  <SelectItem value="supporters">Most Affected</SelectItem>
+                  <SelectItem value="unread">Unread First</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
           </CardContent>
         </Card>
@@ -367,7 +540,14 @@ function ManagerDashboardContent() {
         {/* Complaints List */}
         <Card>
           <CardHeader>
-            <CardTitle>All Complaints ({filteredComplaints.length})</CardTitle>
+            <CardTitle>
+              All Complaints ({filteredComplaints.length})
+              {filteredComplaints.some(c => unreadCounts[c.id]) && (
+                <span className="ml-2 text-sm font-normal text-muted-foreground">
+                  · {filteredComplaints.filter(c => unreadCounts[c.id]).length} with new messages
+                </span>
+              )}
+            </CardTitle>
             <CardDescription>
               Manage and track all student complaints
             </CardDescription>
@@ -388,6 +568,33 @@ function ManagerDashboardContent() {
                         <h3 className="font-semibold">{complaint.title}</h3>
                         {getStatusBadge(complaint.status)}
                         {getPriorityBadge(complaint.priority)}
+                        <SlaBadge complaint={complaint} />
+                        {complaint.escalation_level > 0 && (
+                          <Badge variant="outline" className="border-destructive text-destructive">
+                            ESCALATED L{complaint.escalation_level}
+                          </Badge>
+                        )}
+                        {complaint.reopen_count > 0 && (
+                          <Badge variant="outline" className="border-warning text-warning">
+                            REOPENED ×{complaint.reopen_count}
+                          </Badge>
+                        )}
+                        {unreadCounts[complaint.id] > 0 && (
+                          <Badge className="bg-primary text-primary-foreground">
+                            {unreadCounts[complaint.id]} NEW
+                          </Badge>
+                        )}
+                        {complaint.supporter_count > 0 && (
+                          <Badge variant="outline">
+                            +{complaint.supporter_count} AFFECTED
+                          </Badge>
+                        )}
+                        {handlers[complaint.id] && (
+                          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                            <Eye className="h-3 w-3" />
+                            Being handled by {handlers[complaint.id].map(h => h.name).join(', ')}
+                          </span>
+                        )}
                       </div>
                       <div className="flex items-center gap-4 text-sm text-muted-foreground">
                         <span className="capitalize">{complaint.category.replace('_', ' ')}</span>
@@ -401,6 +608,16 @@ function ManagerDashboardContent() {
                         </span>
                         <span>•</span>
                         <span>{new Date(complaint.created_at).toLocaleDateString()}</span>
+                        {complaint.manager_id && (
+                          <>
+                            <span>•</span>
+                            <span>
+                              Assigned to {managers.find(m => m.id === complaint.manager_id)?.name || 'Unknown'}
+                              {complaint.assignment_method && ASSIGNMENT_METHOD_LABELS[complaint.assignment_method] &&
+                                ` (auto · ${ASSIGNMENT_METHOD_LABELS[complaint.assignment_method]})`}
+                            </span>
+                          </>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -408,17 +625,19 @@ function ManagerDashboardContent() {
                   <div className="flex gap-2">
                     <Select
                       value={complaint.status}
-                      onValueChange={(value) => updateComplaintStatus(complaint.id, value)}
+                      onValueChange={(value) => requestStatusChange(complaint, value)}
+                      disabled={getNextStatuses(complaint.status).length === 0}
                     >
                       <SelectTrigger className="w-[180px]">
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="new">New</SelectItem>
-                        <SelectItem value="acknowledged">Acknowledged</SelectItem>
-                        <SelectItem value="in_progress">In Progress</SelectItem>
-                        <SelectItem value="resolved">Resolved</SelectItem>
-                        <SelectItem value="closed">Closed</SelectItem>
+                        <SelectItem value={complaint.status}>{STATUS_LABELS[complaint.status]}</SelectItem>
+                        {getNextStatuses(complaint.status).map(t => (
+                          <SelectItem key={t.to_status} value={t.to_status}>
+                            {STATUS_LABELS[t.to_status]}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
 
@@ -427,6 +646,7 @@ function ManagerDashboardContent() {
                       size="sm"
                       onClick={() => {
                         setSelectedComplaint(complaint);
+                        setShowAllManagers(false);
                         setAssignDialogOpen(true);
                       }}
                     >
@@ -465,7 +685,12 @@ function ManagerDashboardContent() {
           </DialogHeader>
           <div className="space-y-4 py-4">
             <div className="space-y-2">
-              {managers.map((manager) => (
+              {coveringManagers.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  No manager covers this hub and category yet. Showing all managers.
+                </p>
+              )}
+              {assignableManagers.map((manager) => (
                 <Button
                   key={manager.id}
                   variant="outline"
@@ -476,6 +701,15 @@ function ManagerDashboardContent() {
                   {manager.name} ({manager.role})
                 </Button>
               ))}
+              {!showAllManagers && coveringManagers.length > 0 && coveringManagers.length < managers.length && (
+                <Button
+                  variant="ghost"
+                  className="w-full"
+                  onClick={() => setShowAllManagers(true)}
+                >
+                  Show all managers
+                </Button>
+              )}
               {selectedComplaint?.manager_id && (
                 <Button
                   variant="outline"
@@ -489,6 +723,45 @@ function ManagerDashboardContent() {
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* Status Note Dialog */}
+      <Dialog open={!!pendingTransition} onOpenChange={(open) => !open && setPendingTransition(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              Mark as {pendingTransition ? STATUS_LABELS[pendingTransition.status] : ''}
+            </DialogTitle>
+            <DialogDescription>
+              This change requires a note. It will be posted to the complaint thread.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            <Label htmlFor="status-note">Note *</Label>
+            <Textarea
+              id="status-note"
+              value={statusNote}
+              onChange={(e) => setStatusNote(e.target.value)}
+              placeholder="Describe what was done..."
+              rows={4}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingTransition(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!statusNote.trim()}
+              onClick={() => pendingTransition && updateComplaintStatus(
+                pendingTransition.complaint.id,
+                pendingTransition.status,
+                statusNote
+              )}
+            >
+              Update Status
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
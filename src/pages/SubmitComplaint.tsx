@@ -1,17 +1,32 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/lib/auth';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 import { toast } from 'sonner';
 import { ArrowLeft, Upload, X } from 'lucide-react';
 import { ProtectedRoute } from '@/components/ProtectedRoute';
+import { SimilarComplaints } from '@/components/SimilarComplaints';
+import { MarkdownTextarea } from '@/components/MarkdownTextarea';
+import { FilePreview } from '@/components/FilePreview';
+import { FileUploadState, UploadProgressList } from '@/components/UploadProgressList';
+import {
+  ACCEPTED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENTS,
+  MAX_ATTACHMENT_SIZE,
+  MAX_PARALLEL_UPLOADS,
+  addAttachmentFiles,
+  createAttachmentUpload,
+  formatFileSize,
+  prepareAttachmentFiles,
+  waitForAttachmentScans,
+} from '@/lib/attachments';
+import { runWithConcurrency } from '@/lib/uploads';
 import { z } from 'zod';
 
 const complaintSchema = z.object({
@@ -29,26 +44,101 @@ function SubmitComplaintContent() {
   const [isLoading, setIsLoading] = useState(false);
   const [isAnonymous, setIsAnonymous] = useState(false);
   const [files, setFiles] = useState<File[]>([]);
+  const [processingFiles, setProcessingFiles] = useState(false);
+  // Set once the complaint is saved; its files are then uploaded with progress shown
+  const [uploads, setUploads] = useState<FileUploadState[] | null>(null);
+  const uploadTasks = useRef<ReturnType<typeof createAttachmentUpload>[]>([]);
+  // Mirrors the fields used to look up similar complaints
+  const [draft, setDraft] = useState({ title: '', description: '', hub: '', room: '' });
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleDraftChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setDraft(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFiles = Array.from(e.target.files || []);
-    
-    // Validate file size (10MB max per file)
-    const validFiles = selectedFiles.filter(file => {
-      if (file.size > 10 * 1024 * 1024) {
-        toast.error(`${file.name} is too large. Maximum size is 10MB.`);
-        return false;
-      }
-      return true;
-    });
+    e.target.value = '';
 
-    setFiles(prev => [...prev, ...validFiles].slice(0, 5)); // Max 5 files
+    setProcessingFiles(true);
+    try {
+      const prepared = await prepareAttachmentFiles(selectedFiles);
+      setFiles(prev => addAttachmentFiles(prev, prepared));
+    } finally {
+      setProcessingFiles(false);
+    }
   };
 
   const removeFile = (index: number) => {
     setFiles(prev => prev.filter((_, i) => i !== index));
   };
 
+  const updateUpload = (index: number, changes: Partial<FileUploadState>) => {
+    setUploads(prev => prev && prev.map((upload, i) => i === index ? { ...upload, ...changes } : upload));
+  };
+
+  // Upload the given files, a few at a time, and report how many failed
+  const runUploads = async (indexes: number[]) => {
+    const results = await runWithConcurrency(indexes.map(index => async () => {
+      updateUpload(index, { status: 'uploading' });
+      try {
+        await uploadTasks.current[index].start();
+        updateUpload(index, { status: 'checking', progress: 1 });
+      } catch (error) {
+        console.error(`Failed to upload file ${index + 1}:`, error);
+        updateUpload(index, { status: 'failed' });
+        throw error;
+      }
+    }), MAX_PARALLEL_UPLOADS);
+
+    return results.filter(result => result.status === 'rejected').length;
+  };
+
+  // Uploaded files only count as submitted once the server has checked them
+  const finishUploads = async (failed: number) => {
+    const total = uploadTasks.current.length;
+    if (failed > 0) {
+      toast.error(`Your complaint was submitted, but ${failed} of ${total} files could not be uploaded`);
+      return;
+    }
+
+    const statuses = await waitForAttachmentScans(uploadTasks.current.map(task => task.id)).catch(error => {
+      console.error('Failed to check attachment scans:', error);
+      return {} as Record<string, string>;
+    });
+    uploadTasks.current.forEach((task, index) => {
+      if (statuses[task.id] === 'clean') updateUpload(index, { status: 'done' });
+      if (statuses[task.id] === 'quarantined') updateUpload(index, { status: 'rejected' });
+    });
+
+    const rejected = uploadTasks.current.filter(task => statuses[task.id] === 'quarantined').length;
+    if (rejected > 0) {
+      toast.error(`Your complaint was submitted, but ${rejected} of ${total} files did not pass the security check`);
+      return;
+    }
+
+    if (uploadTasks.current.some(task => statuses[task.id] !== 'clean')) {
+      toast.success('Complaint submitted. Your files are still being checked and will be shared once they pass.');
+    } else {
+      toast.success('Complaint submitted successfully!');
+    }
+    navigate('/dashboard');
+  };
+
+  const retryFailedUploads = async () => {
+    const failed = (uploads || [])
+      .map((upload, index) => ({ upload, index }))
+      .filter(({ upload }) => upload.status === 'failed')
+      .map(({ index }) => index);
+
+    setIsLoading(true);
+    try {
+      await finishUploads(await runUploads(failed));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     setIsLoading(true);
@@ -66,8 +156,11 @@ function SubmitComplaintContent() {
     try {
       complaintSchema.parse(data);
 
-      // Insert complaint
+      // Insert complaint. The id is generated here because an anonymous reporter
+      // is not linked to the row until after the insert, so it cannot be read back.
+      const complaint = { id: crypto.randomUUID() };
       const complaintData: any = {
+        id: complaint.id,
         title: data.title,
         description: data.description,
         category: data.category,
@@ -78,39 +171,21 @@ function SubmitComplaintContent() {
         is_anonymous: isAnonymous,
       };
 
-      const { data: complaint, error: complaintError } = await supabase
+      const { error: complaintError } = await supabase
         .from('complaints')
-        .insert(complaintData)
-        .select()
-        .single();
+        .insert(complaintData);
 
       if (complaintError) throw complaintError;
 
-      // Upload files if any
-      if (files.length > 0) {
-        for (const file of files) {
-          const fileExt = file.name.split('.').pop();
-          const fileName = `${complaint.id}/${Date.now()}.${fileExt}`;
-          
-          const { error: uploadError } = await supabase.storage
-            .from('complaint-attachments')
-            .upload(fileName, file);
-
-          if (!uploadError) {
-            await supabase.from('attachments').insert({
-              complaint_id: complaint.id,
-              uploader_id: isAnonymous ? null : user?.id,
-              file_path: fileName,
-              file_name: file.name,
-              mime_type: file.type,
-              file_size: file.size,
-            });
-          }
-        }
-      }
+      // The complaint is saved; from here on only its files can fail
+      uploadTasks.current = files.map((file, index) => createAttachmentUpload(
+        file,
+        { complaintId: complaint.id, uploaderId: isAnonymous ? null : user?.id },
+        progress => updateUpload(index, { progress })
+      ));
+      setUploads(files.map(file => ({ file, progress: 0, status: 'pending' })));
 
-      toast.success('Complaint submitted successfully!');
-      navigate('/dashboard');
+      await finishUploads(await runUploads(files.map((_, index) => index)));
     } catch (error: any) {
       if (error instanceof z.ZodError) {
         toast.error(error.errors[0].message);
@@ -142,149 +217,190 @@ function SubmitComplaintContent() {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-6">
-              <div className="flex items-center justify-between rounded-lg border p-4">
-                <div className="space-y-0.5">
-                  <Label htmlFor="anonymous">Submit Anonymously</Label>
-                  <p className="text-sm text-muted-foreground">
-                    Your identity will not be visible to managers
-                  </p>
-                </div>
-                <Switch
-                  id="anonymous"
-                  checked={isAnonymous}
-                  onCheckedChange={setIsAnonymous}
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="title">Title *</Label>
-                <Input
-                  id="title"
-                  name="title"
-                  placeholder="Brief description of the issue"
-                  required
-                  disabled={isLoading}
-                />
+            {uploads ? (
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  {isLoading
+                    ? uploads.some(upload => upload.status === 'checking')
+                      ? 'Your complaint has been saved. Checking attachments...'
+                      : 'Your complaint has been saved. Uploading attachments...'
+                    : uploads.some(upload => upload.status === 'failed')
+                      ? 'Your complaint has been saved, but some attachments could not be uploaded.'
+                      : 'Your complaint has been saved, but some attachments did not pass the security check and were not shared.'}
+                </p>
+                <UploadProgressList uploads={uploads} />
+                {!isLoading && (
+                  <div className="flex gap-2">
+                    {uploads.some(upload => upload.status === 'failed') && (
+                      <Button onClick={retryFailedUploads} className="flex-1">
+                        Retry Failed Uploads
+                      </Button>
+                    )}
+                    <Button variant="outline" onClick={() => navigate('/dashboard')} className="flex-1">
+                      Continue Without Them
+                    </Button>
+                  </div>
+                )}
               </div>
-
-              <div className="grid gap-4 md:grid-cols-2">
-                <div className="space-y-2">
-                  <Label htmlFor="category">Category *</Label>
-                  <Select name="category" required disabled={isLoading}>
-                    <SelectTrigger id="category">
-                      <SelectValue placeholder="Select category" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="facilities">Facilities</SelectItem>
-                      <SelectItem value="equipment">Equipment</SelectItem>
-                      <SelectItem value="network">Network/WiFi</SelectItem>
-                      <SelectItem value="classroom">Classroom</SelectItem>
-                      <SelectItem value="hygiene">Hygiene</SelectItem>
-                      <SelectItem value="safety">Safety</SelectItem>
-                      <SelectItem value="other">Other</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="priority">Priority *</Label>
-                  <Select name="priority" required disabled={isLoading}>
-                    <SelectTrigger id="priority">
-                      <SelectValue placeholder="Select priority" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="low">Low</SelectItem>
-                      <SelectItem value="medium">Medium</SelectItem>
-                      <SelectItem value="high">High</SelectItem>
-                    </SelectContent>
-                  </Select>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="flex items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="anonymous">Submit Anonymously</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Your identity will not be visible to managers
+                    </p>
+                  </div>
+                  <Switch
+                    id="anonymous"
+                    checked={isAnonymous}
+                    onCheckedChange={setIsAnonymous}
+                  />
                 </div>
-              </div>
 
-              <div className="grid gap-4 md:grid-cols-2">
                 <div className="space-y-2">
-                  <Label htmlFor="hub">Hub *</Label>
+                  <Label htmlFor="title">Title *</Label>
                   <Input
-                    id="hub"
-                    name="hub"
-                    placeholder="e.g., Kochi Hub"
+                    id="title"
+                    name="title"
+                    onChange={handleDraftChange}
+                    placeholder="Brief description of the issue"
                     required
                     disabled={isLoading}
                   />
                 </div>
 
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="category">Category *</Label>
+                    <Select name="category" required disabled={isLoading}>
+                      <SelectTrigger id="category">
+                        <SelectValue placeholder="Select category" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="facilities">Facilities</SelectItem>
+                        <SelectItem value="equipment">Equipment</SelectItem>
+                        <SelectItem value="network">Network/WiFi</SelectItem>
+                        <SelectItem value="classroom">Classroom</SelectItem>
+                        <SelectItem value="hygiene">Hygiene</SelectItem>
+                        <SelectItem value="safety">Safety</SelectItem>
+                        <SelectItem value="other">Other</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="priority">Priority *</Label>
+                    <Select name="priority" required disabled={isLoading}>
+                      <SelectTrigger id="priority">
+                        <SelectValue placeholder="Select priority" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="low">Low</SelectItem>
+                        <SelectItem value="medium">Medium</SelectItem>
+                        <SelectItem value="high">High</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="hub">Hub *</Label>
+                    <Input
+                      id="hub"
+                      name="hub"
+                      onChange={handleDraftChange}
+                      placeholder="e.g., Kochi Hub"
+                      required
+                      disabled={isLoading}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="room">Room (Optional)</Label>
+                    <Input
+                      id="room"
+                      name="room"
+                      onChange={handleDraftChange}
+                      placeholder="e.g., Lab 1"
+                      disabled={isLoading}
+                    />
+                  </div>
+                </div>
+
                 <div className="space-y-2">
-                  <Label htmlFor="room">Room (Optional)</Label>
-                  <Input
-                    id="room"
-                    name="room"
-                    placeholder="e.g., Lab 1"
+                  <Label htmlFor="description">Description *</Label>
+                  <MarkdownTextarea
+                    id="description"
+                    name="description"
+                    value={draft.description}
+                    onChange={handleDraftChange}
+                    placeholder="Provide detailed information about the complaint..."
+                    rows={6}
+                    required
                     disabled={isLoading}
                   />
                 </div>
-              </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="description">Description *</Label>
-                <Textarea
-                  id="description"
-                  name="description"
-                  placeholder="Provide detailed information about the complaint..."
-                  rows={6}
-                  required
-                  disabled={isLoading}
-                />
-              </div>
+                <SimilarComplaints {...draft} />
 
-              <div className="space-y-2">
-                <Label>Attachments (Optional)</Label>
-                <div className="flex items-center gap-2">
-                  <Input
-                    type="file"
-                    multiple
-                    accept="image/*,.pdf"
-                    onChange={handleFileChange}
-                    disabled={isLoading || files.length >= 5}
-                    className="hidden"
-                    id="file-upload"
-                  />
-                  <Button
-                    type="button"
-                    variant="outline"
-                    onClick={() => document.getElementById('file-upload')?.click()}
-                    disabled={isLoading || files.length >= 5}
-                  >
-                    <Upload className="mr-2 h-4 w-4" />
-                    Choose Files
-                  </Button>
-                  <span className="text-sm text-muted-foreground">
-                    {files.length}/5 files (max 10MB each)
-                  </span>
-                </div>
-                {files.length > 0 && (
-                  <div className="space-y-2 mt-2">
-                    {files.map((file, index) => (
-                      <div key={index} className="flex items-center justify-between rounded-md border p-2">
-                        <span className="text-sm truncate flex-1">{file.name}</span>
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => removeFile(index)}
-                        >
-                          <X className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    ))}
+                <div className="space-y-2">
+                  <Label>Attachments (Optional)</Label>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="file"
+                      multiple
+                      accept={ACCEPTED_ATTACHMENT_TYPES}
+                      onChange={handleFileChange}
+                      disabled={isLoading || processingFiles || files.length >= MAX_ATTACHMENTS}
+                      className="hidden"
+                      id="file-upload"
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => document.getElementById('file-upload')?.click()}
+                      disabled={isLoading || processingFiles || files.length >= MAX_ATTACHMENTS}
+                    >
+                      <Upload className="mr-2 h-4 w-4" />
+                      {processingFiles ? 'Processing...' : 'Choose Files'}
+                    </Button>
+                    <span className="text-sm text-muted-foreground">
+                      {files.length}/{MAX_ATTACHMENTS} files (max {MAX_ATTACHMENT_SIZE / 1024 / 1024}MB each)
+                    </span>
                   </div>
-                )}
-              </div>
+                  <p className="text-xs text-muted-foreground">
+                    Photos are resized and stripped of location and camera details before upload. What you see below is exactly what will be sent.
+                  </p>
+                  {files.length > 0 && (
+                    <div className="space-y-2 mt-2">
+                      {files.map((file, index) => (
+                        <div key={index} className="flex items-center justify-between gap-3 rounded-md border p-2">
+                          <FilePreview file={file} />
+                          <div className="min-w-0 flex-1">
+                            <p className="text-sm truncate">{file.name}</p>
+                            <p className="text-xs text-muted-foreground">{formatFileSize(file.size)}</p>
+                          </div>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => removeFile(index)}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
 
-              <Button type="submit" className="w-full" disabled={isLoading}>
-                {isLoading ? 'Submitting...' : 'Submit Complaint'}
-              </Button>
-            </form>
+                <Button type="submit" className="w-full" disabled={isLoading || processingFiles}>
+                  {isLoading ? 'Submitting...' : 'Submit Complaint'}
+                </Button>
+              </form>
+            )}
           </CardContent>
         </Card>
       </main>
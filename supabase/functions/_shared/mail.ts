@@ -0,0 +1,71 @@
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+  close(): Promise<void>;
+}
+
+// Plain SMTP. Locally this points at the Inbucket mail catcher, which takes
+// unauthenticated, unencrypted mail on port 2500.
+class SmtpTransport implements MailTransport {
+  private client: SMTPClient;
+
+  constructor(private from: string) {
+    const username = Deno.env.get("SMTP_USER");
+    const password = Deno.env.get("SMTP_PASS");
+    const tls = Deno.env.get("SMTP_TLS") === "true";
+
+    this.client = new SMTPClient({
+      connection: {
+        hostname: Deno.env.get("SMTP_HOST") ?? "localhost",
+        port: Number(Deno.env.get("SMTP_PORT") ?? 2500),
+        tls,
+        auth: username && password ? { username, password } : undefined,
+      },
+      debug: tls ? undefined : { allowUnsecure: true, noStartTLS: true },
+    });
+  }
+
+  async send(message: MailMessage) {
+    await this.client.send({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      content: message.text,
+      html: message.html,
+    });
+  }
+
+  async close() {
+    await this.client.close();
+  }
+}
+
+// Logs instead of sending, for environments without a mail server
+class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage) {
+    console.log(`[mail] ${message.subject}\n${message.text}`);
+  }
+
+  async close() {}
+}
+
+export function createTransport(): MailTransport {
+  const from = Deno.env.get("MAIL_FROM") ?? "Complaints <no-reply@localhost>";
+
+  switch (Deno.env.get("MAIL_TRANSPORT") ?? "smtp") {
+    case "smtp":
+      return new SmtpTransport(from);
+    case "console":
+      return new ConsoleTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${Deno.env.get("MAIL_TRANSPORT")}"`);
+  }
+}
@@ -0,0 +1,126 @@
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+interface Attachment {
+  id: string;
+  complaint_id: string;
+  message_id: string | null;
+  uploader_id: string | null;
+  file_path: string;
+  file_name: string;
+  mime_type: string;
+  file_size: number | null;
+}
+
+// Mirrors the limit in src/lib/attachments.ts
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+// Leading bytes every file of an allowed type starts with
+const SIGNATURES: Record<string, number[]> = {
+  "image/jpeg": [0xff, 0xd8, 0xff],
+  "image/png": [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  "application/pdf": [0x25, 0x50, 0x44, 0x46, 0x2d],
+};
+
+// Checks the contents of newly attached files. A file whose bytes do not match its
+// type or that is too large is moved to the quarantine bucket, its attachment row is
+// marked 'quarantined' so the uploader sees it was rejected, and the rejection is
+// written to audit_logs. The file count is enforced when the attachment row is inserted.
+Deno.serve(async () => {
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  );
+
+  const { data: attachments, error } = await supabase.rpc("claim_attachment_scans", { _limit: 20 });
+  if (error) {
+    console.error("Failed to claim attachment scans:", error);
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+
+  let clean = 0;
+  let quarantined = 0;
+  let failed = 0;
+
+  for (const attachment of (attachments ?? []) as Attachment[]) {
+    try {
+      const reason = await scan(supabase, attachment);
+      if (reason) {
+        await quarantine(supabase, attachment, reason);
+        quarantined++;
+      } else {
+        const { error: updateError } = await supabase
+          .from("attachments")
+          .update({ scan_status: "clean" })
+          .eq("id", attachment.id);
+        if (updateError) throw updateError;
+        clean++;
+      }
+    } catch (scanError) {
+      // Left in scanning; it is claimed again once the claim goes stale
+      console.error(`Failed to scan attachment ${attachment.id}:`, scanError);
+      failed++;
+    }
+  }
+
+  return Response.json({ claimed: attachments?.length ?? 0, clean, quarantined, failed });
+});
+
+// Returns why the file must be rejected, or null when it passes
+async function scan(supabase: SupabaseClient, attachment: Attachment) {
+  const signature = SIGNATURES[attachment.mime_type];
+  if (!signature) return "unsupported_type";
+
+  const { data: file, error: downloadError } = await supabase.storage
+    .from("complaint-attachments")
+    .download(attachment.file_path);
+  if (downloadError) throw downloadError;
+
+  if (file.size > MAX_FILE_SIZE) return "too_large";
+
+  const head = new Uint8Array(await file.slice(0, signature.length).arrayBuffer());
+  if (head.length < signature.length || signature.some((byte, i) => head[i] !== byte)) {
+    return "content_mismatch";
+  }
+
+  return null;
+}
+
+async function quarantine(supabase: SupabaseClient, attachment: Attachment, reason: string) {
+  const { data: file, error: downloadError } = await supabase.storage
+    .from("complaint-attachments")
+    .download(attachment.file_path);
+  if (downloadError) throw downloadError;
+
+  // Stored as opaque bytes so nothing ever renders it
+  const { error: uploadError } = await supabase.storage
+    .from("attachment-quarantine")
+    .upload(attachment.file_path, file, { contentType: "application/octet-stream", upsert: true });
+  if (uploadError) throw uploadError;
+
+  const { error: removeError } = await supabase.storage
+    .from("complaint-attachments")
+    .remove([attachment.file_path]);
+  if (removeError) throw removeError;
+
+  const { error: updateError } = await supabase
+    .from("attachments")
+    .update({ scan_status: "quarantined" })
+    .eq("id", attachment.id);
+  if (updateError) throw updateError;
+
+  // uploader_id is already masked for anonymous reporters
+  const { error: auditError } = await supabase.from("audit_logs").insert({
+    actor_id: attachment.uploader_id,
+    action: "attachment_quarantined",
+    details: {
+      reason,
+      complaint_id: attachment.complaint_id,
+      message_id: attachment.message_id,
+      file_name: attachment.file_name,
+      mime_type: attachment.mime_type,
+      file_size: attachment.file_size,
+      quarantine_path: attachment.file_path,
+    },
+  });
+  if (auditError) throw auditError;
+}
@@ -0,0 +1,224 @@
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createTransport, MailTransport } from "../_shared/mail.ts";
+import { ComplaintContext, renderTemplate, Template } from "./templates.ts";
+
+interface OutboxEvent {
+  id: string;
+  event: "complaint_created" | "complaint_assigned" | "status_changed" | "message_posted";
+  complaint_id: string;
+  message_id: string | null;
+  actor_id: string | null;
+  details: { to?: string; note?: string | null };
+}
+
+interface Complaint {
+  id: string;
+  title: string;
+  hub: string;
+  category: string;
+  priority: string;
+  user_id: string | null;
+  manager_id: string | null;
+  is_anonymous: boolean;
+  profiles: { name: string } | null;
+}
+
+// Drains notification_outbox. Runs with the service role, so it is the only place
+// that sees anonymous reporters' addresses: each email goes to a single recipient,
+// and nothing sent to staff names or addresses an anonymous reporter.
+Deno.serve(async () => {
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  );
+
+  const { data: events, error } = await supabase.rpc("claim_notifications", { _limit: 50 });
+  if (error) {
+    console.error("Failed to claim notifications:", error);
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+
+  const transport = createTransport();
+  let sent = 0;
+  let failed = 0;
+
+  try {
+    for (const event of (events ?? []) as OutboxEvent[]) {
+      try {
+        sent += await deliver(supabase, transport, event);
+        // Every recipient is recorded by now, so a retry of an unmarked event emails nobody twice
+        const { error: processedError } = await supabase
+          .from("notification_outbox")
+          .update({ processed_at: new Date().toISOString(), last_error: null })
+          .eq("id", event.id);
+        if (processedError) {
+          console.error(`Failed to mark notification ${event.id} as processed:`, processedError);
+        }
+      } catch (deliveryError) {
+        failed++;
+        // Only the event id is logged, never the recipient
+        console.error(`Failed to deliver notification ${event.id}:`, deliveryError);
+        await supabase
+          .from("notification_outbox")
+          .update({ last_error: String(deliveryError) })
+          .eq("id", event.id);
+      }
+    }
+  } finally {
+    await transport.close();
+  }
+
+  return Response.json({ claimed: events?.length ?? 0, sent, failed });
+});
+
+async function deliver(supabase: SupabaseClient, transport: MailTransport, event: OutboxEvent) {
+  const { data: complaint, error } = await supabase
+    .from("complaints")
+    .select("id, title, hub, category, priority, user_id, manager_id, is_anonymous, profiles!complaints_user_id_fkey(name)")
+    .eq("id", event.complaint_id)
+    .single<Complaint>();
+  if (error) throw error;
+
+  const context: ComplaintContext = {
+    id: complaint.id,
+    title: complaint.title,
+    hub: complaint.hub,
+    category: complaint.category,
+    priority: complaint.priority,
+    url: `${Deno.env.get("APP_URL") ?? "http://localhost:8080"}/complaint/${complaint.id}`,
+  };
+
+  let recipients: string[] = [];
+  let template: Template;
+  // Supporters get their own template; anyone who is also a regular recipient gets that one
+  let supporters: string[] = [];
+  let supporterTemplate: Template | null = null;
+
+  switch (event.event) {
+    case "complaint_created":
+      recipients = await staffFor(supabase, complaint);
+      template = {
+        kind: "complaint_created",
+        complaint: context,
+        reporterName: complaint.is_anonymous ? "An anonymous student" : complaint.profiles?.name ?? "A student",
+      };
+      break;
+    case "complaint_assigned":
+      recipients = complaint.manager_id ? [complaint.manager_id] : [];
+      template = { kind: "complaint_assigned", complaint: context };
+      break;
+    case "status_changed":
+      recipients = [await reporterOf(supabase, complaint)].filter((id): id is string => !!id);
+      template = {
+        kind: "status_changed",
+        complaint: context,
+        status: event.details.to ?? "",
+        note: event.details.note ?? null,
+      };
+      supporters = await supportersOf(supabase, complaint);
+      supporterTemplate = { kind: "supported_status_changed", complaint: context, status: event.details.to ?? "" };
+      break;
+    case "message_posted": {
+      const { data: message, error: messageError } = await supabase
+        .from("messages")
+        .select("body, sender_id, from_reporter, retracted_at, profiles(name)")
+        .eq("id", event.message_id)
+        .maybeSingle();
+      if (messageError) throw messageError;
+      // Retracted before the email went out
+      if (!message || message.retracted_at) return 0;
+
+      const reporterId = await reporterOf(supabase, complaint);
+      const fromReporter = message.from_reporter || (!!reporterId && message.sender_id === reporterId);
+      recipients = fromReporter
+        ? complaint.manager_id ? [complaint.manager_id] : await staffFor(supabase, complaint)
+        : [reporterId].filter((id): id is string => !!id);
+      template = {
+        kind: "message_posted",
+        complaint: context,
+        senderName: fromReporter && complaint.is_anonymous
+          ? "Reporter"
+          : (message.profiles as { name: string } | null)?.name ?? "Someone",
+        body: message.body,
+      };
+      break;
+    }
+  }
+
+  // Recipients reached by an earlier attempt that failed partway
+  const { data: deliveries, error: deliveriesError } = await supabase
+    .from("notification_deliveries")
+    .select("recipient_id")
+    .eq("outbox_id", event.id);
+  if (deliveriesError) throw deliveriesError;
+  const delivered = new Set((deliveries ?? []).map(d => d.recipient_id as string));
+
+  const templates = new Map<string, Template>();
+  if (supporterTemplate) {
+    for (const userId of supporters) templates.set(userId, supporterTemplate);
+  }
+  for (const userId of recipients) templates.set(userId, template);
+
+  let sent = 0;
+  for (const [userId, userTemplate] of templates) {
+    if (userId === event.actor_id || delivered.has(userId)) continue;
+
+    const { data, error: userError } = await supabase.auth.admin.getUserById(userId);
+    if (userError) throw userError;
+    if (!data.user?.email) continue;
+
+    await transport.send(renderTemplate(data.user.email, userTemplate));
+    sent++;
+
+    const { error: recordError } = await supabase
+      .from("notification_deliveries")
+      .insert({ outbox_id: event.id, recipient_id: userId });
+    if (recordError) throw recordError;
+  }
+  return sent;
+}
+
+// The reporter of an anonymous complaint is only recorded in complaint_reporters
+async function reporterOf(supabase: SupabaseClient, complaint: Complaint) {
+  if (complaint.user_id) return complaint.user_id;
+
+  const { data, error } = await supabase
+    .from("complaint_reporters")
+    .select("user_id")
+    .eq("complaint_id", complaint.id)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.user_id as string | undefined;
+}
+
+// Students who said the complaint also affects them
+async function supportersOf(supabase: SupabaseClient, complaint: Complaint) {
+  const { data, error } = await supabase
+    .from("complaint_supporters")
+    .select("user_id")
+    .eq("complaint_id", complaint.id);
+  if (error) throw error;
+  return (data ?? []).map(s => s.user_id as string);
+}
+
+// Managers whose coverage includes the complaint, or every manager when nobody covers it
+async function staffFor(supabase: SupabaseClient, complaint: Complaint) {
+  const { data: managers, error } = await supabase
+    .from("profiles")
+    .select("id")
+    .in("role", ["manager", "admin"]);
+  if (error) throw error;
+
+  const covering: string[] = [];
+  for (const manager of managers ?? []) {
+    const { data: covers, error: coverError } = await supabase.rpc("manager_covers", {
+      _manager_id: manager.id,
+      _hub: complaint.hub,
+      _category: complaint.category,
+    });
+    if (coverError) throw coverError;
+    if (covers) covering.push(manager.id);
+  }
+
+  return covering.length > 0 ? covering : (managers ?? []).map(m => m.id);
+}
@@ -0,0 +1,75 @@
+import type { MailMessage } from "../_shared/mail.ts";
+
+const STATUS_LABELS: Record<string, string> = {
+  new: "New",
+  acknowledged: "Acknowledged",
+  in_progress: "In Progress",
+  resolved: "Resolved",
+  closed: "Closed",
+};
+
+export interface ComplaintContext {
+  id: string;
+  title: string;
+  hub: string;
+  category: string;
+  priority: string;
+  url: string;
+}
+
+export type Template =
+  | { kind: "complaint_created"; complaint: ComplaintContext; reporterName: string }
+  | { kind: "complaint_assigned"; complaint: ComplaintContext }
+  | { kind: "status_changed"; complaint: ComplaintContext; status: string; note: string | null }
+  | { kind: "supported_status_changed"; complaint: ComplaintContext; status: string }
+  | { kind: "message_posted"; complaint: ComplaintContext; senderName: string; body: string };
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+// Each template is a subject and a list of paragraphs; the complaint link is appended to both bodies
+const compose = (to: string, subject: string, paragraphs: string[], complaint: ComplaintContext): MailMessage => ({
+  to,
+  subject,
+  text: [...paragraphs, `View the complaint: ${complaint.url}`].join("\n\n"),
+  html: [
+    ...paragraphs.map(p => `<p style="white-space: pre-wrap">${escapeHtml(p)}</p>`),
+    `<p><a href="${escapeHtml(complaint.url)}">View the complaint</a></p>`,
+  ].join("\n"),
+});
+
+export function renderTemplate(to: string, template: Template): MailMessage {
+  const { complaint } = template;
+
+  switch (template.kind) {
+    case "complaint_created":
+      return compose(to, `New complaint: ${complaint.title}`, [
+        `${template.reporterName} filed a new ${complaint.priority} priority ${complaint.category.replace("_", " ")} complaint in ${complaint.hub}.`,
+        complaint.title,
+      ], complaint);
+    case "complaint_assigned":
+      return compose(to, `Assigned to you: ${complaint.title}`, [
+        `The complaint "${complaint.title}" in ${complaint.hub} has been assigned to you.`,
+      ], complaint);
+    case "status_changed":
+      return compose(to, `Your complaint is now ${STATUS_LABELS[template.status] ?? template.status}`, [
+        `The status of your complaint "${complaint.title}" changed to ${STATUS_LABELS[template.status] ?? template.status}.`,
+        ...(template.note ? [template.note] : []),
+      ], complaint);
+    // Supporters never see the conversation, so the note to the reporter is left out
+    case "supported_status_changed":
+      return compose(to, `A complaint you support is now ${STATUS_LABELS[template.status] ?? template.status}`, [
+        `The status of "${complaint.title}" in ${complaint.hub}, which you said also affects you, changed to ${STATUS_LABELS[template.status] ?? template.status}.`,
+      ], complaint);
+    case "message_posted":
+      return compose(to, `New message on "${complaint.title}"`, [
+        `${template.senderName} wrote:`,
+        template.body,
+      ], complaint);
+  }
+}
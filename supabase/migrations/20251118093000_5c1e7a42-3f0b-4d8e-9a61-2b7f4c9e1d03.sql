@@ -0,0 +1,90 @@
+-- SLA policies: target resolution time per category and priority, optionally scoped to a hub
+CREATE TABLE public.sla_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  category complaint_category NOT NULL,
+  priority complaint_priority NOT NULL,
+  hub TEXT,
+  resolution_hours INTEGER NOT NULL CHECK (resolution_hours > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One policy per scope; a NULL hub is the default for every hub
+CREATE UNIQUE INDEX sla_policies_scope_key
+  ON public.sla_policies (category, priority, COALESCE(lower(hub), ''));
+
+ALTER TABLE public.sla_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view SLA policies" ON public.sla_policies FOR SELECT USING (
+  auth.uid() IS NOT NULL
+);
+CREATE POLICY "Admins can manage SLA policies" ON public.sla_policies FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+) WITH CHECK (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+CREATE TRIGGER update_sla_policies_updated_at BEFORE UPDATE ON public.sla_policies
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Resolve the deadline for a complaint; a hub-specific policy wins over the default
+CREATE OR REPLACE FUNCTION public.compute_sla_due_at(
+  _category complaint_category,
+  _priority complaint_priority,
+  _hub TEXT,
+  _from TIMESTAMPTZ
+)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _from + make_interval(hours => p.resolution_hours)
+  FROM public.sla_policies p
+  WHERE p.category = _category
+    AND p.priority = _priority
+    AND (p.hub IS NULL OR lower(p.hub) = lower(trim(_hub)))
+  ORDER BY p.hub IS NULL
+  LIMIT 1;
+$$;
+
+-- Stamp sla_due_at on insert and recompute it whenever the policy inputs change
+CREATE OR REPLACE FUNCTION public.set_complaint_sla_due_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT'
+    OR NEW.priority IS DISTINCT FROM OLD.priority
+    OR NEW.category IS DISTINCT FROM OLD.category
+    OR NEW.hub IS DISTINCT FROM OLD.hub
+  THEN
+    NEW.sla_due_at = public.compute_sla_due_at(NEW.category, NEW.priority, NEW.hub, NEW.created_at);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_complaints_sla_due_at BEFORE INSERT OR UPDATE ON public.complaints
+  FOR EACH ROW EXECUTE FUNCTION public.set_complaint_sla_due_at();
+
+-- Default policies for every category and priority
+INSERT INTO public.sla_policies (category, priority, resolution_hours)
+SELECT
+  c.category,
+  p.priority,
+  CASE
+    WHEN c.category = 'safety' AND p.priority = 'high' THEN 4
+    WHEN p.priority = 'high' THEN 24
+    WHEN p.priority = 'medium' THEN 72
+    ELSE 168
+  END
+FROM unnest(enum_range(NULL::complaint_category)) AS c(category)
+CROSS JOIN unnest(enum_range(NULL::complaint_priority)) AS p(priority);
+
+-- Backfill existing complaints
+UPDATE public.complaints
+SET sla_due_at = public.compute_sla_due_at(category, priority, hub, created_at)
+WHERE sla_due_at IS NULL;
@@ -0,0 +1,155 @@
+-- Escalation matrix: overdue complaints step through configurable levels per category
+CREATE TYPE public.escalation_target AS ENUM ('assigned_manager', 'hub_lead', 'admin');
+
+-- Hub leads receive complaints escalated past the assigned manager
+CREATE TABLE public.hub_leads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  hub TEXT NOT NULL,
+  lead_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX hub_leads_hub_key ON public.hub_leads (lower(hub));
+
+-- delay_hours counts from the SLA deadline for the first level and from the previous escalation after that
+CREATE TABLE public.escalation_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  category complaint_category NOT NULL,
+  level INTEGER NOT NULL CHECK (level > 0),
+  target escalation_target NOT NULL,
+  delay_hours INTEGER NOT NULL DEFAULT 0 CHECK (delay_hours >= 0),
+  bump_priority BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (category, level)
+);
+
+ALTER TABLE public.complaints
+  ADD COLUMN escalation_level INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN escalated_at TIMESTAMPTZ;
+
+ALTER TABLE public.hub_leads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.escalation_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can view hub leads" ON public.hub_leads FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+);
+CREATE POLICY "Admins can manage hub leads" ON public.hub_leads FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+) WITH CHECK (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+CREATE POLICY "Managers can view escalation rules" ON public.escalation_rules FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+);
+CREATE POLICY "Admins can manage escalation rules" ON public.escalation_rules FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+) WITH CHECK (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+CREATE TRIGGER update_escalation_rules_updated_at BEFORE UPDATE ON public.escalation_rules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Move every overdue complaint at most one level up; returns the number escalated
+CREATE OR REPLACE FUNCTION public.escalate_overdue_complaints()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _complaint public.complaints%ROWTYPE;
+  _rule public.escalation_rules%ROWTYPE;
+  _manager_id UUID;
+  _priority complaint_priority;
+  _count INTEGER := 0;
+BEGIN
+  FOR _complaint IN
+    SELECT * FROM public.complaints
+    WHERE status NOT IN ('resolved', 'closed')
+      AND sla_due_at IS NOT NULL
+      AND sla_due_at < NOW()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    SELECT * INTO _rule
+    FROM public.escalation_rules
+    WHERE category = _complaint.category
+      AND level > _complaint.escalation_level
+    ORDER BY level
+    LIMIT 1;
+
+    CONTINUE WHEN NOT FOUND;
+    CONTINUE WHEN NOW() < COALESCE(_complaint.escalated_at, _complaint.sla_due_at)
+      + make_interval(hours => _rule.delay_hours);
+
+    _manager_id := CASE _rule.target
+      WHEN 'hub_lead' THEN (
+        SELECT lead_id FROM public.hub_leads WHERE lower(hub) = lower(trim(_complaint.hub))
+      )
+      WHEN 'admin' THEN (
+        SELECT id FROM public.profiles WHERE role = 'admin' ORDER BY created_at LIMIT 1
+      )
+      ELSE _complaint.manager_id
+    END;
+    -- Keep the current assignee when the level has nobody to hand over to
+    _manager_id := COALESCE(_manager_id, _complaint.manager_id);
+
+    _priority := CASE
+      WHEN NOT _rule.bump_priority THEN _complaint.priority
+      WHEN _complaint.priority = 'low' THEN 'medium'::complaint_priority
+      ELSE 'high'::complaint_priority
+    END;
+
+    UPDATE public.complaints
+    SET manager_id = _manager_id,
+        priority = _priority,
+        escalation_level = _rule.level,
+        escalated_at = NOW()
+    WHERE id = _complaint.id;
+
+    INSERT INTO public.audit_logs (actor_id, action, details)
+    VALUES (
+      NULL,
+      'complaint_escalated',
+      jsonb_build_object(
+        'complaint_id', _complaint.id,
+        'level', _rule.level,
+        'target', _rule.target,
+        'from_manager_id', _complaint.manager_id,
+        'to_manager_id', _manager_id,
+        'from_priority', _complaint.priority,
+        'to_priority', _priority
+      )
+    );
+
+    _count := _count + 1;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+-- Only the scheduler may run escalations
+REVOKE EXECUTE ON FUNCTION public.escalate_overdue_complaints() FROM PUBLIC, anon, authenticated;
+
+-- Default matrix: assigned manager on breach, hub lead a day later, admin a day after that
+INSERT INTO public.escalation_rules (category, level, target, delay_hours)
+SELECT c.category, r.level, r.target, r.delay_hours
+FROM unnest(enum_range(NULL::complaint_category)) AS c(category)
+CROSS JOIN (
+  VALUES
+    (1, 'assigned_manager'::escalation_target, 0),
+    (2, 'hub_lead'::escalation_target, 24),
+    (3, 'admin'::escalation_target, 24)
+) AS r(level, target, delay_hours);
+
+-- Run the escalation sweep every 15 minutes
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'escalate-overdue-complaints',
+  '*/15 * * * *',
+  $$SELECT public.escalate_overdue_complaints()$$
+);
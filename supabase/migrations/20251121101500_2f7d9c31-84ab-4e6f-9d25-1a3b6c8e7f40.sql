@@ -0,0 +1,86 @@
+-- Allowed complaint status transitions; the single source of truth for the database and the UI
+CREATE TABLE public.complaint_status_transitions (
+  from_status complaint_status NOT NULL,
+  to_status complaint_status NOT NULL,
+  requires_note BOOLEAN NOT NULL DEFAULT false,
+  PRIMARY KEY (from_status, to_status),
+  CHECK (from_status <> to_status)
+);
+
+ALTER TABLE public.complaint_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view status transitions" ON public.complaint_status_transitions FOR SELECT USING (true);
+
+INSERT INTO public.complaint_status_transitions (from_status, to_status, requires_note) VALUES
+  ('new', 'acknowledged', false),
+  ('acknowledged', 'in_progress', false),
+  ('acknowledged', 'resolved', true),
+  ('in_progress', 'resolved', true),
+  ('resolved', 'in_progress', true),
+  ('resolved', 'closed', false);
+
+-- Reject status changes that are not in the transition table, or that skip a required note.
+-- The note is passed in by transition_complaint_status() through a transaction-local setting.
+CREATE OR REPLACE FUNCTION public.enforce_complaint_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _requires_note BOOLEAN;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT requires_note INTO _requires_note
+  FROM public.complaint_status_transitions
+  WHERE from_status = OLD.status AND to_status = NEW.status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cannot change status from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _requires_note AND COALESCE(current_setting('app.status_note', true), '') = '' THEN
+    RAISE EXCEPTION 'Changing status from % to % requires a note', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_complaints_status_transition BEFORE UPDATE OF status ON public.complaints
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_complaint_status_transition();
+
+-- Change a complaint's status, posting the note (if any) to the complaint thread
+CREATE OR REPLACE FUNCTION public.transition_complaint_status(
+  _complaint_id UUID,
+  _status complaint_status,
+  _note TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _trimmed_note TEXT := COALESCE(trim(_note), '');
+BEGIN
+  PERFORM set_config('app.status_note', _trimmed_note, true);
+
+  UPDATE public.complaints SET status = _status WHERE id = _complaint_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Complaint not found or you are not allowed to update it'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _trimmed_note <> '' THEN
+    INSERT INTO public.messages (complaint_id, sender_id, body)
+    VALUES (_complaint_id, auth.uid(), _trimmed_note);
+  END IF;
+
+  PERFORM set_config('app.status_note', '', true);
+END;
+$$;
@@ -0,0 +1,54 @@
+-- Complaint history: status, priority and assignment changes, written by trigger
+CREATE TABLE public.complaint_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  complaint_id UUID NOT NULL REFERENCES public.complaints(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  field TEXT NOT NULL CHECK (field IN ('status', 'priority', 'manager_id')),
+  old_value TEXT,
+  new_value TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX complaint_history_complaint_id_idx ON public.complaint_history (complaint_id, created_at);
+
+ALTER TABLE public.complaint_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view history for accessible complaints" ON public.complaint_history FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.complaints c
+    WHERE c.id = complaint_id AND (
+      c.user_id = auth.uid() OR
+      EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+    )
+  )
+);
+
+-- The actor is the signed-in user; changes made by scheduled jobs have no actor
+CREATE OR REPLACE FUNCTION public.record_complaint_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.complaint_history (complaint_id, actor_id, field, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'status', OLD.status, NEW.status);
+  END IF;
+
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    INSERT INTO public.complaint_history (complaint_id, actor_id, field, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'priority', OLD.priority, NEW.priority);
+  END IF;
+
+  IF NEW.manager_id IS DISTINCT FROM OLD.manager_id THEN
+    INSERT INTO public.complaint_history (complaint_id, actor_id, field, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'manager_id', OLD.manager_id, NEW.manager_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_complaints_history AFTER UPDATE ON public.complaints
+  FOR EACH ROW EXECUTE FUNCTION public.record_complaint_history();
@@ -0,0 +1,126 @@
+-- Application settings editable by admins
+CREATE TABLE public.app_settings (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view settings" ON public.app_settings FOR SELECT USING (
+  auth.uid() IS NOT NULL
+);
+CREATE POLICY "Admins can manage settings" ON public.app_settings FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+) WITH CHECK (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+CREATE TRIGGER update_app_settings_updated_at BEFORE UPDATE ON public.app_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.app_settings (key, value) VALUES ('reopen_window_hours', '72');
+
+-- How long after resolution the reporter may reopen a complaint
+CREATE OR REPLACE FUNCTION public.reopen_window()
+RETURNS INTERVAL
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT make_interval(hours => COALESCE((SELECT (value #>> '{}')::INTEGER FROM public.app_settings WHERE key = 'reopen_window_hours'), 0));
+$$;
+
+ALTER TABLE public.complaints
+  ADD COLUMN resolved_at TIMESTAMPTZ,
+  ADD COLUMN reopen_count INTEGER NOT NULL DEFAULT 0;
+
+UPDATE public.complaints SET resolved_at = updated_at WHERE status IN ('resolved', 'closed');
+
+-- Track when a complaint was resolved and how often its reporter reopened it
+CREATE OR REPLACE FUNCTION public.stamp_complaint_resolution()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'resolved' AND OLD.status IS DISTINCT FROM 'resolved' THEN
+    NEW.resolved_at = NOW();
+  END IF;
+
+  IF OLD.status = 'resolved' AND NEW.status = 'in_progress' AND auth.uid() = OLD.user_id THEN
+    NEW.reopen_count = OLD.reopen_count + 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_complaints_resolution BEFORE UPDATE ON public.complaints
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_complaint_resolution();
+
+-- Reporters may only change the status; every other column belongs to managers
+CREATE OR REPLACE FUNCTION public.guard_complaint_owner_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL
+    OR EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF (to_jsonb(NEW) - 'status') IS DISTINCT FROM (to_jsonb(OLD) - 'status') THEN
+    RAISE EXCEPTION 'Only the status of a complaint can be changed by its reporter'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_complaints_owner_update BEFORE UPDATE ON public.complaints
+  FOR EACH ROW EXECUTE FUNCTION public.guard_complaint_owner_update();
+
+CREATE POLICY "Owners can reopen recently resolved complaints" ON public.complaints FOR UPDATE USING (
+  auth.uid() = user_id AND
+  status = 'resolved' AND
+  resolved_at > NOW() - public.reopen_window()
+) WITH CHECK (
+  auth.uid() = user_id AND status = 'in_progress'
+);
+
+-- Reopen a resolved complaint as its reporter, posting the reason to the thread
+CREATE OR REPLACE FUNCTION public.reopen_complaint(_complaint_id UUID, _reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _trimmed_reason TEXT := COALESCE(trim(_reason), '');
+BEGIN
+  IF _trimmed_reason = '' THEN
+    RAISE EXCEPTION 'A reason is required to reopen a complaint'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('app.status_note', _trimmed_reason, true);
+
+  UPDATE public.complaints
+  SET status = 'in_progress'
+  WHERE id = _complaint_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This complaint can no longer be reopened'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO public.messages (complaint_id, sender_id, body)
+  VALUES (_complaint_id, auth.uid(), 'Reopened: ' || _trimmed_reason);
+
+  PERFORM set_config('app.status_note', '', true);
+END;
+$$;
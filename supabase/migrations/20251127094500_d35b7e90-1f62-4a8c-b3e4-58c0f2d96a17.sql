@@ -0,0 +1,96 @@
+-- Resolution feedback: the reporter confirms or rejects a fix and rates the handling manager
+CREATE TABLE public.complaint_feedback (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  complaint_id UUID NOT NULL REFERENCES public.complaints(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  manager_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  confirmed BOOLEAN NOT NULL,
+  rating INTEGER NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX complaint_feedback_complaint_id_idx ON public.complaint_feedback (complaint_id);
+CREATE INDEX complaint_feedback_manager_id_idx ON public.complaint_feedback (manager_id);
+
+ALTER TABLE public.complaint_feedback ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own feedback" ON public.complaint_feedback FOR SELECT USING (
+  auth.uid() = user_id OR
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+);
+-- Once per resolution, credited to the manager the complaint is assigned to
+CREATE POLICY "Reporters can rate resolved complaints" ON public.complaint_feedback FOR INSERT WITH CHECK (
+  auth.uid() = user_id AND
+  EXISTS (
+    SELECT 1 FROM public.complaints c
+    WHERE c.id = complaint_id
+      AND c.user_id = auth.uid()
+      AND c.status = 'resolved'
+      AND c.manager_id IS NOT DISTINCT FROM complaint_feedback.manager_id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.complaint_feedback f
+        WHERE f.complaint_id = c.id AND f.created_at >= c.resolved_at
+      )
+  )
+);
+
+-- Reporters may now also close a resolved complaint. Both owner transitions live in one
+-- policy so the reopen window cannot be bypassed by mixing checks from separate policies.
+DROP POLICY "Owners can reopen recently resolved complaints" ON public.complaints;
+
+CREATE POLICY "Owners can close or reopen resolved complaints" ON public.complaints FOR UPDATE USING (
+  auth.uid() = user_id AND status = 'resolved'
+) WITH CHECK (
+  auth.uid() = user_id AND (
+    status = 'closed' OR
+    (status = 'in_progress' AND resolved_at > NOW() - public.reopen_window())
+  )
+);
+
+-- Record the reporter's verdict; a confirmation closes the complaint, a rejection reopens it
+CREATE OR REPLACE FUNCTION public.submit_resolution_feedback(
+  _complaint_id UUID,
+  _confirmed BOOLEAN,
+  _rating INTEGER,
+  _comment TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _complaint public.complaints%ROWTYPE;
+BEGIN
+  SELECT * INTO _complaint
+  FROM public.complaints
+  WHERE id = _complaint_id AND user_id = auth.uid() AND status = 'resolved';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the reporter can give feedback on a resolved complaint'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO public.complaint_feedback (complaint_id, user_id, manager_id, confirmed, rating, comment)
+  VALUES (_complaint_id, auth.uid(), _complaint.manager_id, _confirmed, _rating, NULLIF(trim(_comment), ''));
+
+  IF _confirmed THEN
+    UPDATE public.complaints SET status = 'closed' WHERE id = _complaint_id;
+  ELSE
+    PERFORM public.reopen_complaint(_complaint_id, _comment);
+  END IF;
+END;
+$$;
+
+-- Satisfaction per manager, hub and category for reporting
+CREATE VIEW public.satisfaction_summary WITH (security_invoker = true) AS
+SELECT
+  f.manager_id,
+  c.hub,
+  c.category,
+  COUNT(*) AS responses,
+  COUNT(*) FILTER (WHERE f.confirmed) AS confirmed_count,
+  ROUND(AVG(f.rating), 2) AS average_rating
+FROM public.complaint_feedback f
+JOIN public.complaints c ON c.id = f.complaint_id
+GROUP BY f.manager_id, c.hub, c.category;
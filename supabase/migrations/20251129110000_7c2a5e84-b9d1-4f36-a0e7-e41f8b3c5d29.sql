@@ -0,0 +1,126 @@
+-- Automatic assignment of new complaints to managers
+
+-- Managers can take themselves out of the assignment pool
+ALTER TABLE public.profiles ADD COLUMN is_available BOOLEAN NOT NULL DEFAULT true;
+
+-- Rule-based routing: the first matching rule (lowest position) with an available manager wins.
+-- A NULL hub or category matches any value.
+CREATE TABLE public.assignment_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  hub TEXT,
+  category complaint_category,
+  manager_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.assignment_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can view assignment rules" ON public.assignment_rules FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+);
+CREATE POLICY "Admins can manage assignment rules" ON public.assignment_rules FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+) WITH CHECK (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- How the current assignee was chosen: manual, round_robin, least_loaded or rule
+ALTER TABLE public.complaints
+  ADD COLUMN assignment_method TEXT,
+  ADD COLUMN assignment_rule_id UUID REFERENCES public.assignment_rules(id) ON DELETE SET NULL;
+
+-- One of: manual, round_robin, least_loaded, rules
+INSERT INTO public.app_settings (key, value) VALUES ('assignment_strategy', '"manual"');
+
+CREATE OR REPLACE FUNCTION public.assign_complaint_manager()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _strategy TEXT;
+  _rule public.assignment_rules%ROWTYPE;
+  _manager_id UUID;
+BEGIN
+  IF NEW.manager_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT value #>> '{}' INTO _strategy FROM public.app_settings WHERE key = 'assignment_strategy';
+
+  IF _strategy = 'rules' THEN
+    SELECT r.* INTO _rule
+    FROM public.assignment_rules r
+    JOIN public.profiles p ON p.id = r.manager_id
+    WHERE p.is_available
+      AND (r.hub IS NULL OR lower(r.hub) = lower(trim(NEW.hub)))
+      AND (r.category IS NULL OR r.category = NEW.category)
+    ORDER BY r.position, r.created_at
+    LIMIT 1;
+
+    IF FOUND THEN
+      NEW.manager_id := _rule.manager_id;
+      NEW.assignment_method := 'rule';
+      NEW.assignment_rule_id := _rule.id;
+      RETURN NEW;
+    END IF;
+
+    -- No rule matched: fall back to the least loaded manager
+    _strategy := 'least_loaded';
+  END IF;
+
+  IF _strategy = 'round_robin' THEN
+    -- The available manager who has waited longest since their last round-robin complaint
+    SELECT p.id INTO _manager_id
+    FROM public.profiles p
+    WHERE p.role = 'manager' AND p.is_available
+    ORDER BY (
+      SELECT MAX(c.created_at) FROM public.complaints c
+      WHERE c.manager_id = p.id AND c.assignment_method = 'round_robin'
+    ) NULLS FIRST, p.created_at
+    LIMIT 1;
+  ELSIF _strategy = 'least_loaded' THEN
+    SELECT p.id INTO _manager_id
+    FROM public.profiles p
+    WHERE p.role = 'manager' AND p.is_available
+    ORDER BY (
+      SELECT COUNT(*) FROM public.complaints c
+      WHERE c.manager_id = p.id AND c.status NOT IN ('resolved', 'closed')
+    ), p.created_at
+    LIMIT 1;
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  IF _manager_id IS NOT NULL THEN
+    NEW.manager_id := _manager_id;
+    NEW.assignment_method := _strategy;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_complaints_manager BEFORE INSERT ON public.complaints
+  FOR EACH ROW EXECUTE FUNCTION public.assign_complaint_manager();
+
+-- Show automatic assignments in the complaint history
+CREATE OR REPLACE FUNCTION public.record_complaint_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.manager_id IS NOT NULL THEN
+    INSERT INTO public.complaint_history (complaint_id, actor_id, field, old_value, new_value)
+    VALUES (NEW.id, NULL, 'manager_id', NULL, NEW.manager_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_complaints_assignment AFTER INSERT ON public.complaints
+  FOR EACH ROW EXECUTE FUNCTION public.record_complaint_assignment();
@@ -0,0 +1,109 @@
+-- Manager coverage: which hubs and categories each manager handles.
+-- A NULL hub or category covers every value, so (NULL, NULL) covers everything.
+CREATE TABLE public.manager_coverage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  manager_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  hub TEXT,
+  category complaint_category,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX manager_coverage_scope_key
+  ON public.manager_coverage (manager_id, COALESCE(lower(hub), ''), COALESCE(category::TEXT, ''));
+
+ALTER TABLE public.manager_coverage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can view coverage" ON public.manager_coverage FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+);
+CREATE POLICY "Admins can manage coverage" ON public.manager_coverage FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+) WITH CHECK (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+CREATE OR REPLACE FUNCTION public.manager_covers(_manager_id UUID, _hub TEXT, _category complaint_category)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.manager_coverage mc
+    WHERE mc.manager_id = _manager_id
+      AND (mc.hub IS NULL OR lower(mc.hub) = lower(trim(_hub)))
+      AND (mc.category IS NULL OR mc.category = _category)
+  );
+$$;
+
+-- Round robin and least-loaded assignment now prefer managers who cover the complaint's hub and category
+CREATE OR REPLACE FUNCTION public.assign_complaint_manager()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _strategy TEXT;
+  _rule public.assignment_rules%ROWTYPE;
+  _manager_id UUID;
+BEGIN
+  IF NEW.manager_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT value #>> '{}' INTO _strategy FROM public.app_settings WHERE key = 'assignment_strategy';
+
+  IF _strategy = 'rules' THEN
+    SELECT r.* INTO _rule
+    FROM public.assignment_rules r
+    JOIN public.profiles p ON p.id = r.manager_id
+    WHERE p.is_available
+      AND (r.hub IS NULL OR lower(r.hub) = lower(trim(NEW.hub)))
+      AND (r.category IS NULL OR r.category = NEW.category)
+    ORDER BY r.position, r.created_at
+    LIMIT 1;
+
+    IF FOUND THEN
+      NEW.manager_id := _rule.manager_id;
+      NEW.assignment_method := 'rule';
+      NEW.assignment_rule_id := _rule.id;
+      RETURN NEW;
+    END IF;
+
+    -- No rule matched: fall back to the least loaded manager
+    _strategy := 'least_loaded';
+  END IF;
+
+  IF _strategy = 'round_robin' THEN
+    -- Among covering managers first, the one who has waited longest since their last round-robin complaint
+    SELECT p.id INTO _manager_id
+    FROM public.profiles p
+    WHERE p.role = 'manager' AND p.is_available
+    ORDER BY NOT public.manager_covers(p.id, NEW.hub, NEW.category), (
+      SELECT MAX(c.created_at) FROM public.complaints c
+      WHERE c.manager_id = p.id AND c.assignment_method = 'round_robin'
+    ) NULLS FIRST, p.created_at
+    LIMIT 1;
+  ELSIF _strategy = 'least_loaded' THEN
+    SELECT p.id INTO _manager_id
+    FROM public.profiles p
+    WHERE p.role = 'manager' AND p.is_available
+    ORDER BY NOT public.manager_covers(p.id, NEW.hub, NEW.category), (
+      SELECT COUNT(*) FROM public.complaints c
+      WHERE c.manager_id = p.id AND c.status NOT IN ('resolved', 'closed')
+    ), p.created_at
+    LIMIT 1;
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  IF _manager_id IS NOT NULL THEN
+    NEW.manager_id := _manager_id;
+    NEW.assignment_method := _strategy;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,54 @@
+-- Similar-complaint lookup for duplicate detection while a complaint is being written
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE INDEX complaints_title_trgm_idx ON public.complaints USING gin (title extensions.gin_trgm_ops);
+
+-- Open complaints in the same hub (and room, when one is given) that read like the draft.
+-- Runs as definer so students can see matches they did not file; only non-identifying columns are returned.
+CREATE OR REPLACE FUNCTION public.find_similar_complaints(
+  _title TEXT,
+  _description TEXT,
+  _hub TEXT,
+  _room TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  status complaint_status,
+  category complaint_category,
+  room TEXT,
+  created_at TIMESTAMPTZ,
+  score REAL
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT *
+  FROM (
+    SELECT
+      c.id,
+      c.title,
+      c.status,
+      c.category,
+      c.room,
+      c.created_at,
+      GREATEST(
+        similarity(c.title, _title),
+        similarity(c.title || ' ' || c.description, _title || ' ' || COALESCE(_description, ''))
+      ) AS score
+    FROM public.complaints c
+    WHERE auth.uid() IS NOT NULL
+      AND c.status NOT IN ('resolved', 'closed')
+      AND lower(trim(c.hub)) = lower(trim(_hub))
+      AND (
+        NULLIF(trim(_room), '') IS NULL OR
+        c.room IS NULL OR
+        lower(trim(c.room)) = lower(trim(_room))
+      )
+  ) matches
+  WHERE matches.score >= 0.3
+  ORDER BY matches.score DESC
+  LIMIT 5;
+$$;
@@ -0,0 +1,240 @@
+-- "Me too": students affected by an existing complaint can support it instead of filing a duplicate.
+-- Supporters never see each other or the reporter; they follow the complaint through summary RPCs.
+CREATE TABLE public.complaint_supporters (
+  complaint_id UUID NOT NULL REFERENCES public.complaints(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (complaint_id, user_id)
+);
+
+CREATE INDEX complaint_supporters_user_id_idx ON public.complaint_supporters (user_id);
+
+ALTER TABLE public.complaint_supporters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own support" ON public.complaint_supporters FOR SELECT USING (
+  auth.uid() = user_id OR
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+);
+CREATE POLICY "Users can support complaints" ON public.complaint_supporters FOR INSERT WITH CHECK (
+  auth.uid() = user_id
+);
+CREATE POLICY "Users can withdraw own support" ON public.complaint_supporters FOR DELETE USING (
+  auth.uid() = user_id
+);
+
+ALTER TABLE public.complaints ADD COLUMN supporter_count INTEGER NOT NULL DEFAULT 0;
+
+-- Supporter counts at which a complaint's priority is raised; support never lowers priority
+INSERT INTO public.app_settings (key, value) VALUES ('supporter_priority_thresholds', '{"medium": 3, "high": 10}');
+
+-- Changes made on behalf of the system (rather than the signed-in user) set app.system_actor,
+-- which skips the reporter guard and records no actor in the history.
+CREATE OR REPLACE FUNCTION public.guard_complaint_owner_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL
+    OR current_setting('app.system_actor', true) = 'on'
+    OR EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF (to_jsonb(NEW) - 'status') IS DISTINCT FROM (to_jsonb(OLD) - 'status') THEN
+    RAISE EXCEPTION 'Only the status of a complaint can be changed by its reporter'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_complaint_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor_id UUID := CASE WHEN current_setting('app.system_actor', true) = 'on' THEN NULL ELSE auth.uid() END;
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.complaint_history (complaint_id, actor_id, field, old_value, new_value)
+    VALUES (NEW.id, _actor_id, 'status', OLD.status, NEW.status);
+  END IF;
+
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    INSERT INTO public.complaint_history (complaint_id, actor_id, field, old_value, new_value)
+    VALUES (NEW.id, _actor_id, 'priority', OLD.priority, NEW.priority);
+  END IF;
+
+  IF NEW.manager_id IS DISTINCT FROM OLD.manager_id THEN
+    INSERT INTO public.complaint_history (complaint_id, actor_id, field, old_value, new_value)
+    VALUES (NEW.id, _actor_id, 'manager_id', OLD.manager_id, NEW.manager_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Keep supporter_count in sync and raise priority when a threshold is reached
+CREATE OR REPLACE FUNCTION public.sync_complaint_supporters()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _complaint public.complaints%ROWTYPE;
+  _count INTEGER;
+  _thresholds JSONB;
+  _priority complaint_priority;
+BEGIN
+  SELECT * INTO _complaint
+  FROM public.complaints
+  WHERE id = COALESCE(NEW.complaint_id, OLD.complaint_id)
+  FOR UPDATE;
+
+  IF TG_OP = 'INSERT' THEN
+    IF _complaint.user_id = NEW.user_id THEN
+      RAISE EXCEPTION 'You cannot support your own complaint'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    IF _complaint.status IN ('resolved', 'closed') THEN
+      RAISE EXCEPTION 'This complaint is already resolved'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  SELECT COUNT(*) INTO _count FROM public.complaint_supporters WHERE complaint_id = _complaint.id;
+  SELECT value INTO _thresholds FROM public.app_settings WHERE key = 'supporter_priority_thresholds';
+
+  _priority := _complaint.priority;
+  IF _count >= COALESCE((_thresholds ->> 'high')::INTEGER, 2147483647) THEN
+    _priority := 'high';
+  ELSIF _count >= COALESCE((_thresholds ->> 'medium')::INTEGER, 2147483647) AND _priority = 'low' THEN
+    _priority := 'medium';
+  END IF;
+
+  PERFORM set_config('app.system_actor', 'on', true);
+  UPDATE public.complaints
+  SET supporter_count = _count, priority = _priority
+  WHERE id = _complaint.id;
+  PERFORM set_config('app.system_actor', '', true);
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_complaint_supporters_count AFTER INSERT OR DELETE ON public.complaint_supporters
+  FOR EACH ROW EXECUTE FUNCTION public.sync_complaint_supporters();
+
+-- Non-identifying view of one complaint, for supporters and students arriving from a duplicate suggestion
+CREATE OR REPLACE FUNCTION public.get_complaint_summary(_complaint_id UUID)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  status complaint_status,
+  category complaint_category,
+  hub TEXT,
+  room TEXT,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  supporter_count INTEGER,
+  is_supporter BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id, c.title, c.status, c.category, c.hub, c.room, c.created_at, c.updated_at, c.supporter_count,
+    EXISTS (SELECT 1 FROM public.complaint_supporters s WHERE s.complaint_id = c.id AND s.user_id = auth.uid())
+  FROM public.complaints c
+  WHERE c.id = _complaint_id AND auth.uid() IS NOT NULL;
+$$;
+
+-- Complaints the signed-in student supports, most recently updated first
+CREATE OR REPLACE FUNCTION public.get_supported_complaints()
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  status complaint_status,
+  category complaint_category,
+  hub TEXT,
+  room TEXT,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  supporter_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.id, c.title, c.status, c.category, c.hub, c.room, c.created_at, c.updated_at, c.supporter_count
+  FROM public.complaint_supporters s
+  JOIN public.complaints c ON c.id = s.complaint_id
+  WHERE s.user_id = auth.uid()
+  ORDER BY c.updated_at DESC;
+$$;
+
+-- Duplicate suggestions now report support so the student can say "me too" directly
+DROP FUNCTION public.find_similar_complaints(TEXT, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.find_similar_complaints(
+  _title TEXT,
+  _description TEXT,
+  _hub TEXT,
+  _room TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  status complaint_status,
+  category complaint_category,
+  room TEXT,
+  created_at TIMESTAMPTZ,
+  score REAL,
+  supporter_count INTEGER,
+  is_supporter BOOLEAN,
+  is_own BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT *
+  FROM (
+    SELECT
+      c.id,
+      c.title,
+      c.status,
+      c.category,
+      c.room,
+      c.created_at,
+      GREATEST(
+        similarity(c.title, _title),
+        similarity(c.title || ' ' || c.description, _title || ' ' || COALESCE(_description, ''))
+      ) AS score,
+      c.supporter_count,
+      EXISTS (SELECT 1 FROM public.complaint_supporters s WHERE s.complaint_id = c.id AND s.user_id = auth.uid()),
+      c.user_id IS NOT DISTINCT FROM auth.uid()
+    FROM public.complaints c
+    WHERE auth.uid() IS NOT NULL
+      AND c.status NOT IN ('resolved', 'closed')
+      AND lower(trim(c.hub)) = lower(trim(_hub))
+      AND (
+        NULLIF(trim(_room), '') IS NULL OR
+        c.room IS NULL OR
+        lower(trim(c.room)) = lower(trim(_room))
+      )
+  ) matches
+  WHERE matches.score >= 0.3
+  ORDER BY matches.score DESC
+  LIMIT 5;
+$$;
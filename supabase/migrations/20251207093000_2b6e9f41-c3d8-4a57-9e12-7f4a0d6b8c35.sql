@@ -0,0 +1,3 @@
+-- Broadcast new messages so open complaint threads update live.
+-- Realtime applies the messages SELECT policy to each subscriber.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.messages;
@@ -0,0 +1,23 @@
+-- Internal notes: messages flagged is_internal are visible to managers and admins only
+UPDATE public.messages SET is_internal = false WHERE is_internal IS NULL;
+ALTER TABLE public.messages ALTER COLUMN is_internal SET NOT NULL;
+
+DROP POLICY "Users can view messages for accessible complaints" ON public.messages;
+CREATE POLICY "Users can view messages for accessible complaints" ON public.messages FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+  OR (
+    NOT is_internal AND EXISTS (
+      SELECT 1 FROM public.complaints c
+      WHERE c.id = complaint_id AND c.user_id = auth.uid()
+    )
+  )
+);
+
+DROP POLICY "Users can create messages" ON public.messages;
+CREATE POLICY "Users can create messages" ON public.messages FOR INSERT WITH CHECK (
+  (auth.uid() = sender_id OR sender_id IS NULL)
+  AND (
+    NOT is_internal
+    OR EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+  )
+);
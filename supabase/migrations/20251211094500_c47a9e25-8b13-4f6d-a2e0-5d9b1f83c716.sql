@@ -0,0 +1,123 @@
+-- Anonymous complaints keep user_id NULL. The reporter is recorded here instead, in a table
+-- with no policies, so only SECURITY DEFINER functions can connect them to the complaint.
+CREATE TABLE public.complaint_reporters (
+  complaint_id UUID PRIMARY KEY REFERENCES public.complaints(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.complaint_reporters ENABLE ROW LEVEL SECURITY;
+
+-- Move any reporter stored on an anonymous complaint into the private table
+INSERT INTO public.complaint_reporters (complaint_id, user_id)
+SELECT id, user_id FROM public.complaints WHERE is_anonymous AND user_id IS NOT NULL;
+
+-- Whether the signed-in user reported the complaint, anonymously or not
+CREATE OR REPLACE FUNCTION public.is_complaint_reporter(_complaint_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.complaints WHERE id = _complaint_id AND user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM public.complaint_reporters WHERE complaint_id = _complaint_id AND user_id = auth.uid());
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_complaint_reporter()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_anonymous AND auth.uid() IS NOT NULL THEN
+    INSERT INTO public.complaint_reporters (complaint_id, user_id) VALUES (NEW.id, auth.uid());
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_complaints_reporter AFTER INSERT ON public.complaints
+  FOR EACH ROW EXECUTE FUNCTION public.record_complaint_reporter();
+
+-- Messages from the reporter are flagged, and on anonymous complaints stored without a sender
+ALTER TABLE public.messages ADD COLUMN from_reporter BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE public.messages m
+SET from_reporter = true
+FROM public.complaints c
+WHERE c.id = m.complaint_id
+  AND m.sender_id = COALESCE(c.user_id, (SELECT user_id FROM public.complaint_reporters WHERE complaint_id = c.id));
+
+UPDATE public.messages m
+SET sender_id = NULL
+FROM public.complaints c
+WHERE c.id = m.complaint_id AND c.is_anonymous AND m.from_reporter;
+
+SELECT set_config('app.system_actor', 'on', true);
+UPDATE public.complaints SET user_id = NULL WHERE is_anonymous AND user_id IS NOT NULL;
+SELECT set_config('app.system_actor', '', true);
+
+ALTER TABLE public.complaints
+  ADD CONSTRAINT complaints_anonymous_without_reporter CHECK (NOT is_anonymous OR user_id IS NULL);
+
+CREATE OR REPLACE FUNCTION public.mask_anonymous_message_sender()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.from_reporter := NEW.sender_id IS NOT NULL
+    AND NEW.sender_id = auth.uid()
+    AND public.is_complaint_reporter(NEW.complaint_id);
+
+  IF NEW.from_reporter AND EXISTS (
+    SELECT 1 FROM public.complaints WHERE id = NEW.complaint_id AND is_anonymous
+  ) THEN
+    NEW.sender_id := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER mask_messages_anonymous_sender BEFORE INSERT ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.mask_anonymous_message_sender();
+
+-- Reporters of anonymous complaints keep access to them
+DROP POLICY "Students can view own complaints" ON public.complaints;
+CREATE POLICY "Students can view own complaints" ON public.complaints FOR SELECT USING (
+  public.is_complaint_reporter(id) OR
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+);
+
+DROP POLICY "Users can view messages for accessible complaints" ON public.messages;
+CREATE POLICY "Users can view messages for accessible complaints" ON public.messages FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+  OR (NOT is_internal AND public.is_complaint_reporter(complaint_id))
+);
+
+-- Only the reporter and managers may post, and only the reporter's masked messages lack a sender
+DROP POLICY "Users can create messages" ON public.messages;
+CREATE POLICY "Users can create messages" ON public.messages FOR INSERT WITH CHECK (
+  (auth.uid() = sender_id OR (sender_id IS NULL AND from_reporter))
+  AND (
+    EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+    OR (NOT is_internal AND public.is_complaint_reporter(complaint_id))
+  )
+);
+
+DROP POLICY "Users can view attachments for accessible complaints" ON public.attachments;
+CREATE POLICY "Users can view attachments for accessible complaints" ON public.attachments FOR SELECT USING (
+  public.is_complaint_reporter(complaint_id) OR
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+);
+
+DROP POLICY "Users can view history for accessible complaints" ON public.complaint_history;
+CREATE POLICY "Users can view history for accessible complaints" ON public.complaint_history FOR SELECT USING (
+  public.is_complaint_reporter(complaint_id) OR
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+);
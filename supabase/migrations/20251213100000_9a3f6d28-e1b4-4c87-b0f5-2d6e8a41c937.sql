@@ -0,0 +1,64 @@
+-- Files attached to a message in the thread. Attachments added when the complaint
+-- was submitted keep message_id NULL.
+ALTER TABLE public.attachments
+  ADD COLUMN message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_attachments_message_id ON public.attachments(message_id);
+
+-- Uploads by the reporter of an anonymous complaint are stored without an uploader
+CREATE OR REPLACE FUNCTION public.mask_anonymous_attachment_uploader()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.uploader_id IS NOT NULL
+    AND NEW.uploader_id = auth.uid()
+    AND public.is_complaint_reporter(NEW.complaint_id)
+    AND EXISTS (SELECT 1 FROM public.complaints WHERE id = NEW.complaint_id AND is_anonymous)
+  THEN
+    NEW.uploader_id := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER mask_attachments_anonymous_uploader BEFORE INSERT ON public.attachments
+  FOR EACH ROW EXECUTE FUNCTION public.mask_anonymous_attachment_uploader();
+
+-- Attachments on internal notes are hidden from the reporter, like the notes themselves
+DROP POLICY "Users can view attachments for accessible complaints" ON public.attachments;
+CREATE POLICY "Users can view attachments for accessible complaints" ON public.attachments FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+  OR (
+    public.is_complaint_reporter(complaint_id)
+    AND (
+      message_id IS NULL
+      OR EXISTS (SELECT 1 FROM public.messages m WHERE m.id = message_id AND NOT m.is_internal)
+    )
+  )
+);
+
+-- Only participants may attach files, and only to messages on the same complaint
+DROP POLICY "Users can upload attachments" ON public.attachments;
+CREATE POLICY "Users can upload attachments" ON public.attachments FOR INSERT WITH CHECK (
+  (auth.uid() = uploader_id OR uploader_id IS NULL)
+  AND (
+    public.is_complaint_reporter(complaint_id)
+    OR EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+  )
+  AND (
+    message_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.messages m WHERE m.id = message_id AND m.complaint_id = attachments.complaint_id)
+  )
+);
+
+-- Files are readable by anyone who can see their attachment row
+CREATE POLICY "Users can view files of visible attachments" ON storage.objects FOR SELECT USING (
+  bucket_id = 'complaint-attachments'
+  AND EXISTS (SELECT 1 FROM public.attachments a WHERE a.file_path = storage.objects.name)
+);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.attachments;
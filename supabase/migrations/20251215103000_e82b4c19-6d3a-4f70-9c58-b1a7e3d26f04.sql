@@ -0,0 +1,85 @@
+-- Read cursors: the last time each user opened each complaint thread.
+-- Cursors are private to their owner; others only see them through get_complaint_read_receipts.
+CREATE TABLE public.complaint_reads (
+  complaint_id UUID NOT NULL REFERENCES public.complaints(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  last_read_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (complaint_id, user_id)
+);
+
+CREATE INDEX complaint_reads_user_id_idx ON public.complaint_reads (user_id);
+
+ALTER TABLE public.complaint_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own read cursors" ON public.complaint_reads FOR SELECT USING (
+  auth.uid() = user_id
+);
+CREATE POLICY "Users can create own read cursors" ON public.complaint_reads FOR INSERT WITH CHECK (
+  auth.uid() = user_id
+);
+CREATE POLICY "Users can update own read cursors" ON public.complaint_reads FOR UPDATE USING (
+  auth.uid() = user_id
+);
+
+-- Existing threads start out read for their reporter and assigned manager
+INSERT INTO public.complaint_reads (complaint_id, user_id)
+SELECT id, user_id FROM public.complaints WHERE user_id IS NOT NULL
+UNION
+SELECT complaint_id, user_id FROM public.complaint_reporters
+UNION
+SELECT id, manager_id FROM public.complaints WHERE manager_id IS NOT NULL;
+
+-- Move the signed-in user's cursor on a complaint to now
+CREATE OR REPLACE FUNCTION public.mark_complaint_read(_complaint_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  INSERT INTO public.complaint_reads (complaint_id, user_id, last_read_at)
+  VALUES (_complaint_id, auth.uid(), NOW())
+  ON CONFLICT (complaint_id, user_id) DO UPDATE SET last_read_at = EXCLUDED.last_read_at;
+$$;
+
+-- Messages from others since the signed-in user last opened each complaint.
+-- Runs with the caller's rights, so internal notes only count for managers.
+CREATE OR REPLACE FUNCTION public.get_unread_counts()
+RETURNS TABLE (complaint_id UUID, unread_count INTEGER)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT m.complaint_id, COUNT(*)::INTEGER
+  FROM public.messages m
+  LEFT JOIN public.complaint_reads r
+    ON r.complaint_id = m.complaint_id AND r.user_id = auth.uid()
+  WHERE m.created_at > COALESCE(r.last_read_at, '-infinity')
+    AND m.sender_id IS DISTINCT FROM auth.uid()
+    AND NOT (m.from_reporter AND public.is_complaint_reporter(m.complaint_id))
+  GROUP BY m.complaint_id;
+$$;
+
+-- When the reporter and the staff last read a thread, without saying who they are
+CREATE OR REPLACE FUNCTION public.get_complaint_read_receipts(_complaint_id UUID)
+RETURNS TABLE (reporter_read_at TIMESTAMPTZ, staff_read_at TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (
+      SELECT r.last_read_at
+      FROM public.complaint_reads r
+      JOIN public.complaints c ON c.id = r.complaint_id
+      LEFT JOIN public.complaint_reporters cr ON cr.complaint_id = c.id
+      WHERE r.complaint_id = _complaint_id AND r.user_id = COALESCE(c.user_id, cr.user_id)
+    ),
+    (
+      SELECT MAX(r.last_read_at)
+      FROM public.complaint_reads r
+      JOIN public.profiles p ON p.id = r.user_id
+      WHERE r.complaint_id = _complaint_id AND p.role IN ('manager', 'admin')
+    )
+  WHERE public.is_complaint_reporter(_complaint_id)
+    OR EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'));
+$$;
@@ -0,0 +1,97 @@
+-- Canned responses for managers. A macro's body may contain {{title}}, {{hub}}, {{room}}
+-- and {{student_name}} placeholders, filled in by the composer before sending, and can
+-- optionally set the complaint's status and/or priority when it is sent.
+CREATE TABLE public.response_macros (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  body TEXT NOT NULL,
+  status complaint_status,
+  priority complaint_priority,
+  is_shared BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.response_macros ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can view own and shared macros" ON public.response_macros FOR SELECT USING (
+  (auth.uid() = owner_id OR is_shared) AND
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+);
+CREATE POLICY "Managers can create own macros" ON public.response_macros FOR INSERT WITH CHECK (
+  auth.uid() = owner_id AND
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+);
+CREATE POLICY "Owners and admins can update macros" ON public.response_macros FOR UPDATE USING (
+  auth.uid() = owner_id OR
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+CREATE POLICY "Owners and admins can delete macros" ON public.response_macros FOR DELETE USING (
+  auth.uid() = owner_id OR
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+CREATE TRIGGER update_response_macros_updated_at BEFORE UPDATE ON public.response_macros
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One row each time a macro is sent
+CREATE TABLE public.response_macro_uses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  macro_id UUID NOT NULL REFERENCES public.response_macros(id) ON DELETE CASCADE,
+  complaint_id UUID NOT NULL REFERENCES public.complaints(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_response_macro_uses_macro_id ON public.response_macro_uses(macro_id);
+
+ALTER TABLE public.response_macro_uses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can view macro usage" ON public.response_macro_uses FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+);
+CREATE POLICY "Managers can record macro usage" ON public.response_macro_uses FOR INSERT WITH CHECK (
+  auth.uid() = user_id AND
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+);
+
+-- Send a macro on a complaint: apply its priority and status, post the (already filled in)
+-- body, and record the use. When the macro changes status the body is posted as the status note.
+CREATE OR REPLACE FUNCTION public.apply_response_macro(_macro_id UUID, _complaint_id UUID, _body TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _macro public.response_macros;
+  _complaint public.complaints;
+  _trimmed_body TEXT := COALESCE(trim(_body), '');
+BEGIN
+  SELECT * INTO _macro FROM public.response_macros WHERE id = _macro_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Macro not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT * INTO _complaint FROM public.complaints WHERE id = _complaint_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Complaint not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF _macro.priority IS NOT NULL AND _macro.priority <> _complaint.priority THEN
+    UPDATE public.complaints SET priority = _macro.priority WHERE id = _complaint_id;
+  END IF;
+
+  IF _macro.status IS NOT NULL AND _macro.status <> _complaint.status THEN
+    PERFORM public.transition_complaint_status(_complaint_id, _macro.status, _trimmed_body);
+  ELSIF _trimmed_body <> '' THEN
+    INSERT INTO public.messages (complaint_id, sender_id, body)
+    VALUES (_complaint_id, auth.uid(), _trimmed_body);
+  END IF;
+
+  INSERT INTO public.response_macro_uses (macro_id, complaint_id, user_id)
+  VALUES (_macro_id, _complaint_id, auth.uid());
+END;
+$$;
@@ -0,0 +1,94 @@
+-- Senders may edit or retract their own messages for a while after posting.
+-- Every prior version is kept in message_revisions, which only managers and admins can read.
+INSERT INTO public.app_settings (key, value) VALUES ('message_edit_window_minutes', '15');
+
+CREATE OR REPLACE FUNCTION public.message_edit_window()
+RETURNS INTERVAL
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT make_interval(mins => COALESCE((SELECT (value #>> '{}')::INTEGER FROM public.app_settings WHERE key = 'message_edit_window_minutes'), 0));
+$$;
+
+ALTER TABLE public.messages
+  ADD COLUMN edited_at TIMESTAMPTZ,
+  ADD COLUMN retracted_at TIMESTAMPTZ;
+
+CREATE TABLE public.message_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  body TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_message_revisions_message_id ON public.message_revisions(message_id);
+
+ALTER TABLE public.message_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can view message revisions" ON public.message_revisions FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+);
+
+-- The sender of a message, including the masked reporter of an anonymous complaint
+CREATE POLICY "Senders can edit recent messages" ON public.messages FOR UPDATE USING (
+  (auth.uid() = sender_id OR (sender_id IS NULL AND from_reporter AND public.is_complaint_reporter(complaint_id)))
+  AND retracted_at IS NULL
+  AND created_at > NOW() - public.message_edit_window()
+) WITH CHECK (
+  auth.uid() = sender_id OR (sender_id IS NULL AND from_reporter AND public.is_complaint_reporter(complaint_id))
+);
+
+-- Only the body can change, and retracting clears it. The previous body is kept as a revision.
+CREATE OR REPLACE FUNCTION public.guard_message_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.retracted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'A retracted message cannot be changed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF (to_jsonb(NEW) - 'body' - 'edited_at' - 'retracted_at') IS DISTINCT FROM (to_jsonb(OLD) - 'body' - 'edited_at' - 'retracted_at') THEN
+    RAISE EXCEPTION 'Only the text of a message can be changed'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.retracted_at IS NOT NULL THEN
+    NEW.retracted_at := NOW();
+    NEW.body := '';
+  ELSIF NEW.body IS NOT DISTINCT FROM OLD.body THEN
+    NEW.edited_at := OLD.edited_at;
+    RETURN NEW;
+  ELSE
+    NEW.edited_at := NOW();
+  END IF;
+
+  INSERT INTO public.message_revisions (message_id, body) VALUES (OLD.id, OLD.body);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_messages_update BEFORE UPDATE ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.guard_message_update();
+
+-- Files on a retracted message are hidden from the reporter along with its text
+DROP POLICY "Users can view attachments for accessible complaints" ON public.attachments;
+CREATE POLICY "Users can view attachments for accessible complaints" ON public.attachments FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+  OR (
+    public.is_complaint_reporter(complaint_id)
+    AND (
+      message_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.messages m
+        WHERE m.id = message_id AND NOT m.is_internal AND m.retracted_at IS NULL
+      )
+    )
+  )
+);
@@ -0,0 +1,130 @@
+-- Complaint events waiting to be emailed by the send-notifications edge function.
+-- Only the service role reads this table, so it may reference anonymous reporters.
+CREATE TYPE public.notification_event AS ENUM ('complaint_created', 'complaint_assigned', 'status_changed', 'message_posted');
+
+CREATE TABLE public.notification_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event notification_event NOT NULL,
+  complaint_id UUID NOT NULL REFERENCES public.complaints(id) ON DELETE CASCADE,
+  message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE,
+  -- Whoever caused the event is never emailed about it
+  actor_id UUID,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  claimed_at TIMESTAMPTZ,
+  processed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_notification_outbox_pending ON public.notification_outbox(created_at) WHERE processed_at IS NULL;
+
+ALTER TABLE public.notification_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.queue_complaint_notifications()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.notification_outbox (event, complaint_id, actor_id)
+    VALUES ('complaint_created', NEW.id, auth.uid());
+
+    IF NEW.manager_id IS NOT NULL THEN
+      INSERT INTO public.notification_outbox (event, complaint_id, actor_id)
+      VALUES ('complaint_assigned', NEW.id, auth.uid());
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.manager_id IS DISTINCT FROM OLD.manager_id AND NEW.manager_id IS NOT NULL THEN
+    INSERT INTO public.notification_outbox (event, complaint_id, actor_id)
+    VALUES ('complaint_assigned', NEW.id, auth.uid());
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.notification_outbox (event, complaint_id, actor_id, details)
+    VALUES (
+      'status_changed',
+      NEW.id,
+      auth.uid(),
+      jsonb_build_object(
+        'from', OLD.status,
+        'to', NEW.status,
+        'note', NULLIF(current_setting('app.status_note', true), '')
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_complaints_notifications AFTER INSERT OR UPDATE ON public.complaints
+  FOR EACH ROW EXECUTE FUNCTION public.queue_complaint_notifications();
+
+-- Internal notes never leave the staff side, so they are not queued at all
+CREATE OR REPLACE FUNCTION public.queue_message_notification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT NEW.is_internal THEN
+    INSERT INTO public.notification_outbox (event, complaint_id, message_id, actor_id)
+    VALUES ('message_posted', NEW.complaint_id, NEW.id, auth.uid());
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_messages_notification AFTER INSERT ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.queue_message_notification();
+
+-- Hands out a batch of pending events. Events claimed by a run that died are
+-- retried after five minutes, up to five attempts.
+CREATE OR REPLACE FUNCTION public.claim_notifications(_limit INTEGER DEFAULT 50)
+RETURNS SETOF public.notification_outbox
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.notification_outbox o
+  SET claimed_at = NOW(), attempts = o.attempts + 1
+  WHERE o.id IN (
+    SELECT id FROM public.notification_outbox
+    WHERE processed_at IS NULL
+      AND attempts < 5
+      AND (claimed_at IS NULL OR claimed_at < NOW() - INTERVAL '5 minutes')
+    ORDER BY created_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_notifications(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_notifications(INTEGER) TO service_role;
+
+-- Drain the outbox every minute. The project URL and service role key are read
+-- from Vault secrets named 'project_url' and 'service_role_key'.
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'send-notifications',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-notifications',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  WHERE EXISTS (SELECT 1 FROM public.notification_outbox WHERE processed_at IS NULL AND attempts < 5);
+  $$
+);
@@ -0,0 +1,56 @@
+-- Attachment files are stored in the complaint-attachments bucket at
+--   <complaint id>/<random uuid>.<extension>
+-- Access to a file follows from its complaint: participants may upload into the
+-- complaint's folder, and a file can be read by whoever can see its attachment row.
+
+-- The complaint a storage path belongs to, or NULL when the path does not follow the scheme
+CREATE OR REPLACE FUNCTION public.attachment_path_complaint_id(_path TEXT)
+RETURNS UUID
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _path ~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/[^/]+$'
+    THEN split_part(_path, '/', 1)::UUID
+  END;
+$$;
+
+DROP POLICY "Users can upload attachments" ON storage.objects;
+DROP POLICY "Users can view attachments for their complaints" ON storage.objects;
+DROP POLICY "Users can view files of visible attachments" ON storage.objects;
+
+CREATE POLICY "Participants can upload complaint files" ON storage.objects FOR INSERT WITH CHECK (
+  bucket_id = 'complaint-attachments'
+  AND (
+    public.is_complaint_reporter(public.attachment_path_complaint_id(name))
+    OR (
+      EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+      AND EXISTS (SELECT 1 FROM public.complaints WHERE id = public.attachment_path_complaint_id(name))
+    )
+  )
+);
+
+-- The attachment row must sit in the file's own complaint folder, so a row on one
+-- complaint can never expose a file from another
+CREATE POLICY "Users can view files of visible attachments" ON storage.objects FOR SELECT USING (
+  bucket_id = 'complaint-attachments'
+  AND EXISTS (
+    SELECT 1 FROM public.attachments a
+    WHERE a.file_path = storage.objects.name
+      AND a.complaint_id = public.attachment_path_complaint_id(storage.objects.name)
+  )
+);
+
+DROP POLICY "Users can upload attachments" ON public.attachments;
+CREATE POLICY "Users can upload attachments" ON public.attachments FOR INSERT WITH CHECK (
+  (auth.uid() = uploader_id OR uploader_id IS NULL)
+  AND public.attachment_path_complaint_id(file_path) = complaint_id
+  AND (
+    public.is_complaint_reporter(complaint_id)
+    OR EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+  )
+  AND (
+    message_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.messages m WHERE m.id = message_id AND m.complaint_id = attachments.complaint_id)
+  )
+);
@@ -0,0 +1,129 @@
+-- Attachments are validated on the server. Storage enforces the size and type limits,
+-- the attachment row takes its size and type from the stored object rather than the
+-- client, and the scan-attachments edge function checks every new file's contents.
+-- Files that fail are moved to the attachment-quarantine bucket and recorded in audit_logs.
+UPDATE storage.buckets
+SET file_size_limit = 10485760,
+    allowed_mime_types = ARRAY['image/jpeg', 'image/png', 'application/pdf']
+WHERE id = 'complaint-attachments';
+
+-- Only the service role can read or write quarantined files
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('attachment-quarantine', 'attachment-quarantine', false);
+
+ALTER TABLE public.attachments
+  ADD COLUMN scan_status TEXT NOT NULL DEFAULT 'pending' CHECK (scan_status IN ('pending', 'scanning', 'clean')),
+  ADD COLUMN scan_started_at TIMESTAMPTZ;
+
+UPDATE public.attachments SET scan_status = 'clean';
+
+CREATE INDEX idx_attachments_pending_scan ON public.attachments(created_at) WHERE scan_status <> 'clean';
+
+-- Calls an edge function with the service role key. Does nothing until the project URL
+-- and key are stored in Vault as 'project_url' and 'service_role_key'.
+CREATE OR REPLACE FUNCTION public.invoke_edge_function(_name TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _url TEXT;
+  _key TEXT;
+BEGIN
+  SELECT decrypted_secret INTO _url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO _key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF _url IS NULL OR _key IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := _url || '/functions/v1/' || _name,
+    headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer ' || _key),
+    body := '{}'::jsonb
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.invoke_edge_function(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- The row must refer to a file that is already stored, and its size and type are
+-- taken from the storage metadata instead of the values sent by the client
+CREATE OR REPLACE FUNCTION public.verify_attachment_object()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _metadata JSONB;
+BEGIN
+  SELECT metadata INTO _metadata
+  FROM storage.objects
+  WHERE bucket_id = 'complaint-attachments' AND name = NEW.file_path;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The attached file has not been uploaded'
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  NEW.file_size := COALESCE((_metadata->>'size')::INTEGER, NEW.file_size);
+  NEW.mime_type := COALESCE(_metadata->>'mimetype', NEW.mime_type);
+  NEW.scan_status := 'pending';
+  NEW.scan_started_at := NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER verify_attachments_object BEFORE INSERT ON public.attachments
+  FOR EACH ROW EXECUTE FUNCTION public.verify_attachment_object();
+
+CREATE OR REPLACE FUNCTION public.request_attachment_scan()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.invoke_edge_function('scan-attachments');
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER request_attachments_scan AFTER INSERT ON public.attachments
+  FOR EACH STATEMENT EXECUTE FUNCTION public.request_attachment_scan();
+
+-- Hands out attachments waiting for a scan. Scans that died are retried after five minutes.
+CREATE OR REPLACE FUNCTION public.claim_attachment_scans(_limit INTEGER DEFAULT 20)
+RETURNS SETOF public.attachments
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.attachments a
+  SET scan_status = 'scanning', scan_started_at = NOW()
+  WHERE a.id IN (
+    SELECT id FROM public.attachments
+    WHERE scan_status = 'pending'
+      OR (scan_status = 'scanning' AND scan_started_at < NOW() - INTERVAL '5 minutes')
+    ORDER BY created_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING a.*;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_attachment_scans(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_attachment_scans(INTEGER) TO service_role;
+
+-- Pick up anything the insert trigger could not hand over
+SELECT cron.schedule(
+  'scan-attachments',
+  '*/5 * * * *',
+  $$
+  SELECT public.invoke_edge_function('scan-attachments')
+  WHERE EXISTS (SELECT 1 FROM public.attachments WHERE scan_status <> 'clean');
+  $$
+);
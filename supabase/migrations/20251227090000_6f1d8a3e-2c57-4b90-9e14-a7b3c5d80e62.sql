@@ -0,0 +1,34 @@
+-- The reporter guard compared every column but status against OLD, so it only held while
+-- it fired before the resolution stamping and after nothing else that writes to the row.
+-- Both now run in one trigger: the guard checks the reporter's own changes first, ignoring
+-- updated_at which update_complaints_updated_at always sets, and the stamping follows.
+DROP TRIGGER stamp_complaints_resolution ON public.complaints;
+DROP FUNCTION public.stamp_complaint_resolution();
+
+CREATE OR REPLACE FUNCTION public.guard_complaint_owner_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND current_setting('app.system_actor', true) IS DISTINCT FROM 'on'
+    AND NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+    AND (to_jsonb(NEW) - 'status' - 'updated_at') IS DISTINCT FROM (to_jsonb(OLD) - 'status' - 'updated_at')
+  THEN
+    RAISE EXCEPTION 'Only the status of a complaint can be changed by its reporter'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Track when a complaint was resolved and how often its reporter reopened it
+  IF NEW.status = 'resolved' AND OLD.status IS DISTINCT FROM 'resolved' THEN
+    NEW.resolved_at = NOW();
+  END IF;
+
+  IF OLD.status = 'resolved' AND NEW.status = 'in_progress' AND public.is_complaint_reporter(OLD.id) THEN
+    NEW.reopen_count = OLD.reopen_count + 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
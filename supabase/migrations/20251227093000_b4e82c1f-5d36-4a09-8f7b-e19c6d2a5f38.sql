@@ -0,0 +1,109 @@
+-- Anonymous complaints have no user_id, so comparing it against the student let anonymous
+-- reporters support their own complaint and hid "is_own" from them in duplicate suggestions.
+-- Both now ask is_complaint_reporter(), which also knows the reporters of anonymous complaints.
+DELETE FROM public.complaint_supporters s
+USING public.complaint_reporters r
+WHERE r.complaint_id = s.complaint_id AND r.user_id = s.user_id;
+
+-- Keep supporter_count in sync and raise priority when a threshold is reached
+CREATE OR REPLACE FUNCTION public.sync_complaint_supporters()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _complaint public.complaints%ROWTYPE;
+  _count INTEGER;
+  _thresholds JSONB;
+  _priority complaint_priority;
+BEGIN
+  SELECT * INTO _complaint
+  FROM public.complaints
+  WHERE id = COALESCE(NEW.complaint_id, OLD.complaint_id)
+  FOR UPDATE;
+
+  IF TG_OP = 'INSERT' THEN
+    IF public.is_complaint_reporter(_complaint.id) THEN
+      RAISE EXCEPTION 'You cannot support your own complaint'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    IF _complaint.status IN ('resolved', 'closed') THEN
+      RAISE EXCEPTION 'This complaint is already resolved'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  SELECT COUNT(*) INTO _count FROM public.complaint_supporters WHERE complaint_id = _complaint.id;
+  SELECT value INTO _thresholds FROM public.app_settings WHERE key = 'supporter_priority_thresholds';
+
+  _priority := _complaint.priority;
+  IF _count >= COALESCE((_thresholds ->> 'high')::INTEGER, 2147483647) THEN
+    _priority := 'high';
+  ELSIF _count >= COALESCE((_thresholds ->> 'medium')::INTEGER, 2147483647) AND _priority = 'low' THEN
+    _priority := 'medium';
+  END IF;
+
+  PERFORM set_config('app.system_actor', 'on', true);
+  UPDATE public.complaints
+  SET supporter_count = _count, priority = _priority
+  WHERE id = _complaint.id;
+  PERFORM set_config('app.system_actor', '', true);
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.find_similar_complaints(
+  _title TEXT,
+  _description TEXT,
+  _hub TEXT,
+  _room TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  status complaint_status,
+  category complaint_category,
+  room TEXT,
+  created_at TIMESTAMPTZ,
+  score REAL,
+  supporter_count INTEGER,
+  is_supporter BOOLEAN,
+  is_own BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT *
+  FROM (
+    SELECT
+      c.id,
+      c.title,
+      c.status,
+      c.category,
+      c.room,
+      c.created_at,
+      GREATEST(
+        similarity(c.title, _title),
+        similarity(c.title || ' ' || c.description, _title || ' ' || COALESCE(_description, ''))
+      ) AS score,
+      c.supporter_count,
+      EXISTS (SELECT 1 FROM public.complaint_supporters s WHERE s.complaint_id = c.id AND s.user_id = auth.uid()),
+      public.is_complaint_reporter(c.id)
+    FROM public.complaints c
+    WHERE auth.uid() IS NOT NULL
+      AND c.status NOT IN ('resolved', 'closed')
+      AND lower(trim(c.hub)) = lower(trim(_hub))
+      AND (
+        NULLIF(trim(_room), '') IS NULL OR
+        c.room IS NULL OR
+        lower(trim(c.room)) = lower(trim(_room))
+      )
+  ) matches
+  WHERE matches.score >= 0.3
+  ORDER BY matches.score DESC
+  LIMIT 5;
+$$;
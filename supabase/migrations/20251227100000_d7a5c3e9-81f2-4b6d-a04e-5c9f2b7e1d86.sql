@@ -0,0 +1,21 @@
+-- Files could be attached to any message on the complaint, including someone else's.
+-- A message now only takes attachments from its sender, or from the reporter when it
+-- is a reporter message on an anonymous complaint and has no sender recorded.
+DROP POLICY "Users can upload attachments" ON public.attachments;
+CREATE POLICY "Users can upload attachments" ON public.attachments FOR INSERT WITH CHECK (
+  (auth.uid() = uploader_id OR uploader_id IS NULL)
+  AND public.attachment_path_complaint_id(file_path) = complaint_id
+  AND (
+    public.is_complaint_reporter(complaint_id)
+    OR EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+  )
+  AND (
+    message_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.messages m
+      WHERE m.id = message_id
+        AND m.complaint_id = attachments.complaint_id
+        AND (m.sender_id = auth.uid() OR (m.from_reporter AND public.is_complaint_reporter(m.complaint_id)))
+    )
+  )
+);
@@ -0,0 +1,53 @@
+-- Presence channels are private, so only authorised users can join them and see who is
+-- there. "presence:handling" is for managers; "presence:<complaint id>" is for managers
+-- and the complaint's reporter.
+
+-- The complaint a presence topic belongs to, or NULL for any other topic
+CREATE OR REPLACE FUNCTION public.presence_topic_complaint_id(_topic TEXT)
+RETURNS UUID
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _topic ~ '^presence:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    THEN substring(_topic FROM 10)::UUID
+  END;
+$$;
+
+CREATE POLICY "Managers can see who is handling complaints" ON realtime.messages
+FOR SELECT TO authenticated USING (
+  realtime.topic() = 'presence:handling'
+  AND extension = 'presence'
+  AND EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+);
+
+CREATE POLICY "Managers can announce which complaint they handle" ON realtime.messages
+FOR INSERT TO authenticated WITH CHECK (
+  realtime.topic() = 'presence:handling'
+  AND extension = 'presence'
+  AND EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+);
+
+CREATE POLICY "Participants can see who has a complaint open" ON realtime.messages
+FOR SELECT TO authenticated USING (
+  extension = 'presence'
+  AND (
+    public.is_complaint_reporter(public.presence_topic_complaint_id(realtime.topic()))
+    OR (
+      EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+      AND EXISTS (SELECT 1 FROM public.complaints WHERE id = public.presence_topic_complaint_id(realtime.topic()))
+    )
+  )
+);
+
+CREATE POLICY "Participants can share that they have a complaint open" ON realtime.messages
+FOR INSERT TO authenticated WITH CHECK (
+  extension = 'presence'
+  AND (
+    public.is_complaint_reporter(public.presence_topic_complaint_id(realtime.topic()))
+    OR (
+      EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+      AND EXISTS (SELECT 1 FROM public.complaints WHERE id = public.presence_topic_complaint_id(realtime.topic()))
+    )
+  )
+);
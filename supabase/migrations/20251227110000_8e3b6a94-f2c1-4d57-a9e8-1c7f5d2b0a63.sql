@@ -0,0 +1,11 @@
+-- Recipients already emailed about an outbox event. When delivery fails partway, the
+-- retry skips everyone recorded here instead of emailing them again.
+CREATE TABLE public.notification_deliveries (
+  outbox_id UUID NOT NULL REFERENCES public.notification_outbox(id) ON DELETE CASCADE,
+  recipient_id UUID NOT NULL,
+  delivered_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (outbox_id, recipient_id)
+);
+
+-- Only the service role reads or writes deliveries
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
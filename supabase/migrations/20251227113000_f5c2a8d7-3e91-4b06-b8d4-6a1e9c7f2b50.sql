@@ -0,0 +1,24 @@
+-- Files are only served once the scan has passed them. Until then an attachment, and
+-- through the storage policy its file, is visible only to whoever uploaded it: the
+-- uploader, or the reporter for uploads masked on anonymous complaints.
+DROP POLICY "Users can view attachments for accessible complaints" ON public.attachments;
+CREATE POLICY "Users can view attachments for accessible complaints" ON public.attachments FOR SELECT USING (
+  (
+    scan_status = 'clean'
+    OR uploader_id = auth.uid()
+    OR (uploader_id IS NULL AND public.is_complaint_reporter(complaint_id))
+  )
+  AND (
+    EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+    OR (
+      public.is_complaint_reporter(complaint_id)
+      AND (
+        message_id IS NULL
+        OR EXISTS (
+          SELECT 1 FROM public.messages m
+          WHERE m.id = message_id AND NOT m.is_internal AND m.retracted_at IS NULL
+        )
+      )
+    )
+  )
+);
@@ -0,0 +1,38 @@
+-- The file limit applies to the whole complaint, across its submission and messages,
+-- and is checked before the attachment row is accepted. The complaint row is locked
+-- so that files attached at the same time are counted one after another.
+CREATE OR REPLACE FUNCTION public.verify_attachment_object()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _metadata JSONB;
+  _count INTEGER;
+BEGIN
+  PERFORM 1 FROM public.complaints WHERE id = NEW.complaint_id FOR UPDATE;
+
+  SELECT COUNT(*) INTO _count FROM public.attachments WHERE complaint_id = NEW.complaint_id;
+  IF _count >= 5 THEN
+    RAISE EXCEPTION 'A complaint can have at most 5 attachments'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT metadata INTO _metadata
+  FROM storage.objects
+  WHERE bucket_id = 'complaint-attachments' AND name = NEW.file_path;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The attached file has not been uploaded'
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  NEW.file_size := COALESCE((_metadata->>'size')::INTEGER, NEW.file_size);
+  NEW.mime_type := COALESCE(_metadata->>'mimetype', NEW.mime_type);
+  NEW.scan_status := 'pending';
+  NEW.scan_started_at := NULL;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,57 @@
+-- Quarantined attachments keep their row, marked 'quarantined', instead of disappearing
+-- without a word. Like every file that has not passed the scan, the row is visible only
+-- to its uploader, who is shown that the file was rejected. Quarantined files do not
+-- count towards the complaint's file limit.
+ALTER TABLE public.attachments DROP CONSTRAINT attachments_scan_status_check;
+ALTER TABLE public.attachments ADD CONSTRAINT attachments_scan_status_check
+  CHECK (scan_status IN ('pending', 'scanning', 'clean', 'quarantined'));
+
+DROP INDEX public.idx_attachments_pending_scan;
+CREATE INDEX idx_attachments_pending_scan ON public.attachments(created_at) WHERE scan_status IN ('pending', 'scanning');
+
+CREATE OR REPLACE FUNCTION public.verify_attachment_object()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _metadata JSONB;
+  _count INTEGER;
+BEGIN
+  PERFORM 1 FROM public.complaints WHERE id = NEW.complaint_id FOR UPDATE;
+
+  SELECT COUNT(*) INTO _count
+  FROM public.attachments
+  WHERE complaint_id = NEW.complaint_id AND scan_status <> 'quarantined';
+  IF _count >= 5 THEN
+    RAISE EXCEPTION 'A complaint can have at most 5 attachments'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT metadata INTO _metadata
+  FROM storage.objects
+  WHERE bucket_id = 'complaint-attachments' AND name = NEW.file_path;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The attached file has not been uploaded'
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  NEW.file_size := COALESCE((_metadata->>'size')::INTEGER, NEW.file_size);
+  NEW.mime_type := COALESCE(_metadata->>'mimetype', NEW.mime_type);
+  NEW.scan_status := 'pending';
+  NEW.scan_started_at := NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+SELECT cron.schedule(
+  'scan-attachments',
+  '*/5 * * * *',
+  $$
+  SELECT public.invoke_edge_function('scan-attachments')
+  WHERE EXISTS (SELECT 1 FROM public.attachments WHERE scan_status IN ('pending', 'scanning'));
+  $$
+);
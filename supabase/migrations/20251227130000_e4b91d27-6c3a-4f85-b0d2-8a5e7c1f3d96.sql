@@ -0,0 +1,112 @@
+-- Confirming, rating and reopening follow the reporter rather than user_id, so the
+-- reporters of anonymous complaints can use them too. Feedback on an anonymous complaint
+-- is stored without a user so it cannot identify the reporter. The reopen count already
+-- follows the reporter since guard_complaint_owner_update took over the stamping.
+UPDATE public.complaint_feedback f
+SET user_id = NULL
+FROM public.complaints c
+WHERE c.id = f.complaint_id AND c.is_anonymous;
+
+DROP POLICY "Owners can close or reopen resolved complaints" ON public.complaints;
+CREATE POLICY "Owners can close or reopen resolved complaints" ON public.complaints FOR UPDATE USING (
+  public.is_complaint_reporter(id) AND status = 'resolved'
+) WITH CHECK (
+  public.is_complaint_reporter(id) AND (
+    status = 'closed' OR
+    (status = 'in_progress' AND resolved_at > NOW() - public.reopen_window())
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.reopen_complaint(_complaint_id UUID, _reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _trimmed_reason TEXT := COALESCE(trim(_reason), '');
+BEGIN
+  IF _trimmed_reason = '' THEN
+    RAISE EXCEPTION 'A reason is required to reopen a complaint'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('app.status_note', _trimmed_reason, true);
+
+  UPDATE public.complaints
+  SET status = 'in_progress'
+  WHERE id = _complaint_id AND public.is_complaint_reporter(id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This complaint can no longer be reopened'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Masked like any other reporter message on an anonymous complaint
+  INSERT INTO public.messages (complaint_id, sender_id, body)
+  VALUES (_complaint_id, auth.uid(), 'Reopened: ' || _trimmed_reason);
+
+  PERFORM set_config('app.status_note', '', true);
+END;
+$$;
+
+DROP POLICY "Users can view own feedback" ON public.complaint_feedback;
+CREATE POLICY "Users can view own feedback" ON public.complaint_feedback FOR SELECT USING (
+  public.is_complaint_reporter(complaint_id) OR
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+);
+
+DROP POLICY "Reporters can rate resolved complaints" ON public.complaint_feedback;
+CREATE POLICY "Reporters can rate resolved complaints" ON public.complaint_feedback FOR INSERT WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.complaints c
+    WHERE c.id = complaint_id
+      AND public.is_complaint_reporter(c.id)
+      AND complaint_feedback.user_id IS NOT DISTINCT FROM (CASE WHEN c.is_anonymous THEN NULL ELSE auth.uid() END)
+      AND c.status = 'resolved'
+      AND c.manager_id IS NOT DISTINCT FROM complaint_feedback.manager_id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.complaint_feedback f
+        WHERE f.complaint_id = c.id AND f.created_at >= c.resolved_at
+      )
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.submit_resolution_feedback(
+  _complaint_id UUID,
+  _confirmed BOOLEAN,
+  _rating INTEGER,
+  _comment TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _complaint public.complaints%ROWTYPE;
+BEGIN
+  SELECT * INTO _complaint
+  FROM public.complaints
+  WHERE id = _complaint_id AND public.is_complaint_reporter(id) AND status = 'resolved';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the reporter can give feedback on a resolved complaint'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO public.complaint_feedback (complaint_id, user_id, manager_id, confirmed, rating, comment)
+  VALUES (
+    _complaint_id,
+    CASE WHEN _complaint.is_anonymous THEN NULL ELSE auth.uid() END,
+    _complaint.manager_id,
+    _confirmed,
+    _rating,
+    NULLIF(trim(_comment), '')
+  );
+
+  IF _confirmed THEN
+    UPDATE public.complaints SET status = 'closed' WHERE id = _complaint_id;
+  ELSE
+    PERFORM public.reopen_complaint(_complaint_id, _comment);
+  END IF;
+END;
+$$;
@@ -0,0 +1,44 @@
+-- Status changes made by the reporter of an anonymous complaint (reopening or confirming
+-- it) recorded the reporter's uid as the actor, which managers could read back as a name.
+-- Like reporter messages, such entries are now flagged by_reporter and stored without an actor.
+ALTER TABLE public.complaint_history ADD COLUMN by_reporter BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE public.complaint_history h
+SET actor_id = NULL, by_reporter = true
+FROM public.complaints c
+JOIN public.complaint_reporters r ON r.complaint_id = c.id
+WHERE c.id = h.complaint_id AND c.is_anonymous AND h.actor_id = r.user_id;
+
+CREATE OR REPLACE FUNCTION public.record_complaint_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor_id UUID := CASE WHEN current_setting('app.system_actor', true) = 'on' THEN NULL ELSE auth.uid() END;
+  _by_reporter BOOLEAN := false;
+BEGIN
+  IF _actor_id IS NOT NULL AND NEW.is_anonymous AND public.is_complaint_reporter(NEW.id) THEN
+    _actor_id := NULL;
+    _by_reporter := true;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.complaint_history (complaint_id, actor_id, by_reporter, field, old_value, new_value)
+    VALUES (NEW.id, _actor_id, _by_reporter, 'status', OLD.status, NEW.status);
+  END IF;
+
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    INSERT INTO public.complaint_history (complaint_id, actor_id, by_reporter, field, old_value, new_value)
+    VALUES (NEW.id, _actor_id, _by_reporter, 'priority', OLD.priority, NEW.priority);
+  END IF;
+
+  IF NEW.manager_id IS DISTINCT FROM OLD.manager_id THEN
+    INSERT INTO public.complaint_history (complaint_id, actor_id, by_reporter, field, old_value, new_value)
+    VALUES (NEW.id, _actor_id, _by_reporter, 'manager_id', OLD.manager_id, NEW.manager_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,36 @@
+-- The message thread ("messages:<complaint id>") and read receipt ("reads:<complaint id>")
+-- channels are private too, so they keep working with Realtime public access turned off.
+-- Like a complaint's presence channel, they are open to managers and the complaint's reporter.
+
+-- The complaint a thread or read receipt topic belongs to, or NULL for any other topic
+CREATE OR REPLACE FUNCTION public.thread_topic_complaint_id(_topic TEXT)
+RETURNS UUID
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _topic ~ '^(messages|reads):[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    THEN split_part(_topic, ':', 2)::UUID
+  END;
+$$;
+
+CREATE POLICY "Participants can follow a complaint thread" ON realtime.messages
+FOR SELECT TO authenticated USING (
+  public.is_complaint_reporter(public.thread_topic_complaint_id(realtime.topic()))
+  OR (
+    EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+    AND EXISTS (SELECT 1 FROM public.complaints WHERE id = public.thread_topic_complaint_id(realtime.topic()))
+  )
+);
+
+CREATE POLICY "Participants can announce reads on a complaint thread" ON realtime.messages
+FOR INSERT TO authenticated WITH CHECK (
+  extension = 'broadcast'
+  AND (
+    public.is_complaint_reporter(public.thread_topic_complaint_id(realtime.topic()))
+    OR (
+      EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+      AND EXISTS (SELECT 1 FROM public.complaints WHERE id = public.thread_topic_complaint_id(realtime.topic()))
+    )
+  )
+);
@@ -0,0 +1,14 @@
+-- A file is stored before its attachment row is inserted. When the row is rejected, for
+-- example over the complaint's file limit, the uploader removes the file again, so
+-- uploaders may see and delete their own files that no attachment row refers to.
+CREATE POLICY "Uploaders can view their unattached files" ON storage.objects FOR SELECT USING (
+  bucket_id = 'complaint-attachments'
+  AND owner_id = auth.uid()::TEXT
+  AND NOT EXISTS (SELECT 1 FROM public.attachments a WHERE a.file_path = storage.objects.name)
+);
+
+CREATE POLICY "Uploaders can remove their unattached files" ON storage.objects FOR DELETE USING (
+  bucket_id = 'complaint-attachments'
+  AND owner_id = auth.uid()::TEXT
+  AND NOT EXISTS (SELECT 1 FROM public.attachments a WHERE a.file_path = storage.objects.name)
+);
@@ -0,0 +1,28 @@
+-- Without the Vault secrets no edge function can be called, so attachments are never
+-- scanned and stay hidden from everyone but their uploader. Say so instead of returning
+-- silently; the warning shows up in the database log and the cron job's run details.
+CREATE OR REPLACE FUNCTION public.invoke_edge_function(_name TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _url TEXT;
+  _key TEXT;
+BEGIN
+  SELECT decrypted_secret INTO _url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO _key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF _url IS NULL OR _key IS NULL THEN
+    RAISE WARNING 'Cannot call the % edge function: store project_url and service_role_key in Vault', _name;
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := _url || '/functions/v1/' || _name,
+    headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer ' || _key),
+    body := '{}'::jsonb
+  );
+END;
+$$;
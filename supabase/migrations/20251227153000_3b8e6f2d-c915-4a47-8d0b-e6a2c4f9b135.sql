@@ -0,0 +1,80 @@
+-- A complaint inserted with a manager_id skipped the assignment engine, so a student
+-- could pick their own assignee. Only managers and admins (and jobs running without a
+-- user) may assign on insert; anything a student sends is discarded before assigning.
+CREATE OR REPLACE FUNCTION public.assign_complaint_manager()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _strategy TEXT;
+  _rule public.assignment_rules%ROWTYPE;
+  _manager_id UUID;
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+  THEN
+    NEW.manager_id := NULL;
+    NEW.assignment_method := NULL;
+    NEW.assignment_rule_id := NULL;
+  END IF;
+
+  IF NEW.manager_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT value #>> '{}' INTO _strategy FROM public.app_settings WHERE key = 'assignment_strategy';
+
+  IF _strategy = 'rules' THEN
+    SELECT r.* INTO _rule
+    FROM public.assignment_rules r
+    JOIN public.profiles p ON p.id = r.manager_id
+    WHERE p.is_available
+      AND (r.hub IS NULL OR lower(r.hub) = lower(trim(NEW.hub)))
+      AND (r.category IS NULL OR r.category = NEW.category)
+    ORDER BY r.position, r.created_at
+    LIMIT 1;
+
+    IF FOUND THEN
+      NEW.manager_id := _rule.manager_id;
+      NEW.assignment_method := 'rule';
+      NEW.assignment_rule_id := _rule.id;
+      RETURN NEW;
+    END IF;
+
+    -- No rule matched: fall back to the least loaded manager
+    _strategy := 'least_loaded';
+  END IF;
+
+  IF _strategy = 'round_robin' THEN
+    -- Among covering managers first, the one who has waited longest since their last round-robin complaint
+    SELECT p.id INTO _manager_id
+    FROM public.profiles p
+    WHERE p.role = 'manager' AND p.is_available
+    ORDER BY NOT public.manager_covers(p.id, NEW.hub, NEW.category), (
+      SELECT MAX(c.created_at) FROM public.complaints c
+      WHERE c.manager_id = p.id AND c.assignment_method = 'round_robin'
+    ) NULLS FIRST, p.created_at
+    LIMIT 1;
+  ELSIF _strategy = 'least_loaded' THEN
+    SELECT p.id INTO _manager_id
+    FROM public.profiles p
+    WHERE p.role = 'manager' AND p.is_available
+    ORDER BY NOT public.manager_covers(p.id, NEW.hub, NEW.category), (
+      SELECT COUNT(*) FROM public.complaints c
+      WHERE c.manager_id = p.id AND c.status NOT IN ('resolved', 'closed')
+    ), p.created_at
+    LIMIT 1;
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  IF _manager_id IS NOT NULL THEN
+    NEW.manager_id := _manager_id;
+    NEW.assignment_method := _strategy;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,40 @@
+-- Read cursors could be written for any complaint id, including complaints the user
+-- cannot see. A cursor now requires access to the complaint: its reporter or a manager.
+DROP POLICY "Users can create own read cursors" ON public.complaint_reads;
+CREATE POLICY "Users can create own read cursors" ON public.complaint_reads FOR INSERT WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    public.is_complaint_reporter(complaint_id)
+    OR EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+  )
+);
+
+DROP POLICY "Users can update own read cursors" ON public.complaint_reads;
+CREATE POLICY "Users can update own read cursors" ON public.complaint_reads FOR UPDATE USING (
+  auth.uid() = user_id
+) WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    public.is_complaint_reporter(complaint_id)
+    OR EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.mark_complaint_read(_complaint_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_complaint_reporter(_complaint_id)
+    AND NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+  THEN
+    RAISE EXCEPTION 'You cannot access this complaint'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO public.complaint_reads (complaint_id, user_id, last_read_at)
+  VALUES (_complaint_id, auth.uid(), NOW())
+  ON CONFLICT (complaint_id, user_id) DO UPDATE SET last_read_at = EXCLUDED.last_read_at;
+END;
+$$;
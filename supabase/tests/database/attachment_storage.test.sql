@@ -0,0 +1,165 @@
+-- Who can read and upload files in the complaint-attachments bucket.
+-- Run against the local stack with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(16);
+
+-- Users: a reporter, the reporter of an anonymous complaint, a manager and an unrelated student
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-4111-8111-111111111111', 'reporter@example.com'),
+  ('22222222-2222-4222-8222-222222222222', 'anonymous@example.com'),
+  ('33333333-3333-4333-8333-333333333333', 'manager@example.com'),
+  ('44444444-4444-4444-8444-444444444444', 'stranger@example.com');
+
+UPDATE public.profiles SET role = 'manager' WHERE id = '33333333-3333-4333-8333-333333333333';
+
+INSERT INTO public.complaints (id, user_id, title, description, category, hub, is_anonymous) VALUES
+  ('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', '11111111-1111-4111-8111-111111111111', 'Broken heater', 'It is cold', 'facilities', 'North', false),
+  ('bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb', NULL, 'Unsafe wiring', 'Exposed cables', 'safety', 'North', true);
+
+INSERT INTO public.complaint_reporters (complaint_id, user_id) VALUES
+  ('bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb', '22222222-2222-4222-8222-222222222222');
+
+INSERT INTO public.messages (id, complaint_id, sender_id, body, is_internal) VALUES
+  ('cccccccc-cccc-4ccc-8ccc-cccccccccccc', 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', '33333333-3333-4333-8333-333333333333', 'Quote attached', true);
+
+INSERT INTO storage.objects (bucket_id, name) VALUES
+  ('complaint-attachments', 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa/d1d1d1d1-d1d1-4d1d-8d1d-d1d1d1d1d1d1.jpg'),
+  ('complaint-attachments', 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa/d2d2d2d2-d2d2-4d2d-8d2d-d2d2d2d2d2d2.pdf'),
+  ('complaint-attachments', 'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb/d3d3d3d3-d3d3-4d3d-8d3d-d3d3d3d3d3d3.jpg'),
+  ('complaint-attachments', 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa/d4d4d4d4-d4d4-4d4d-8d4d-d4d4d4d4d4d4.png');
+
+INSERT INTO public.attachments (complaint_id, message_id, uploader_id, file_path, file_name, mime_type) VALUES
+  ('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', NULL, '11111111-1111-4111-8111-111111111111',
+   'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa/d1d1d1d1-d1d1-4d1d-8d1d-d1d1d1d1d1d1.jpg', 'heater.jpg', 'image/jpeg'),
+  ('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 'cccccccc-cccc-4ccc-8ccc-cccccccccccc', '33333333-3333-4333-8333-333333333333',
+   'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa/d2d2d2d2-d2d2-4d2d-8d2d-d2d2d2d2d2d2.pdf', 'quote.pdf', 'application/pdf'),
+  ('bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb', NULL, NULL,
+   'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb/d3d3d3d3-d3d3-4d3d-8d3d-d3d3d3d3d3d3.jpg', 'wiring.jpg', 'image/jpeg');
+
+-- The files above have passed the scan; this one is still waiting for it
+UPDATE public.attachments SET scan_status = 'clean';
+
+INSERT INTO public.attachments (complaint_id, message_id, uploader_id, file_path, file_name, mime_type) VALUES
+  ('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', NULL, '11111111-1111-4111-8111-111111111111',
+   'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa/d4d4d4d4-d4d4-4d4d-8d4d-d4d4d4d4d4d4.png', 'radiator.png', 'image/png');
+
+SET LOCAL ROLE authenticated;
+
+-- Reporter
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-4111-8111-111111111111", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$SELECT name FROM storage.objects WHERE bucket_id = 'complaint-attachments' ORDER BY name$$,
+  $$VALUES
+    ('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa/d1d1d1d1-d1d1-4d1d-8d1d-d1d1d1d1d1d1.jpg'),
+    ('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa/d4d4d4d4-d4d4-4d4d-8d4d-d4d4d4d4d4d4.png')$$,
+  'Reporters read the files on their complaint, except those on internal notes'
+);
+
+SELECT results_eq(
+  $$SELECT scan_status FROM public.attachments WHERE file_name = 'radiator.png'$$,
+  $$VALUES ('pending')$$,
+  'Uploaders see their own files while they wait for the scan'
+);
+
+SELECT lives_ok(
+  $$INSERT INTO storage.objects (bucket_id, name) VALUES ('complaint-attachments', 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa/e1e1e1e1-e1e1-4e1e-8e1e-e1e1e1e1e1e1.png')$$,
+  'Reporters can upload into their complaint''s folder'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO storage.objects (bucket_id, name) VALUES ('complaint-attachments', 'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb/e2e2e2e2-e2e2-4e2e-8e2e-e2e2e2e2e2e2.png')$$,
+  '42501', NULL,
+  'Reporters cannot upload into another complaint''s folder'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO storage.objects (bucket_id, name) VALUES ('complaint-attachments', '11111111-1111-4111-8111-111111111111/e3e3e3e3-e3e3-4e3e-8e3e-e3e3e3e3e3e3.png')$$,
+  '42501', NULL,
+  'Uploads outside a complaint folder are rejected'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO public.attachments (complaint_id, uploader_id, file_path, file_name, mime_type)
+    VALUES ('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', '11111111-1111-4111-8111-111111111111',
+            'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb/d3d3d3d3-d3d3-4d3d-8d3d-d3d3d3d3d3d3.jpg', 'stolen.jpg', 'image/jpeg')$$,
+  '42501', NULL,
+  'An attachment row cannot point at a file in another complaint''s folder'
+);
+
+-- Anonymous reporter
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-4222-8222-222222222222", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$SELECT name FROM storage.objects WHERE bucket_id = 'complaint-attachments' ORDER BY name$$,
+  $$VALUES ('bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb/d3d3d3d3-d3d3-4d3d-8d3d-d3d3d3d3d3d3.jpg')$$,
+  'Anonymous reporters read the files on their complaint'
+);
+
+SELECT lives_ok(
+  $$INSERT INTO storage.objects (bucket_id, name) VALUES ('complaint-attachments', 'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb/e4e4e4e4-e4e4-4e4e-8e4e-e4e4e4e4e4e4.png')$$,
+  'Anonymous reporters can upload into their complaint''s folder'
+);
+
+-- Manager
+SELECT set_config('request.jwt.claims', '{"sub": "33333333-3333-4333-8333-333333333333", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$SELECT name FROM storage.objects WHERE bucket_id = 'complaint-attachments' ORDER BY name$$,
+  $$VALUES
+    ('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa/d1d1d1d1-d1d1-4d1d-8d1d-d1d1d1d1d1d1.jpg'),
+    ('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa/d2d2d2d2-d2d2-4d2d-8d2d-d2d2d2d2d2d2.pdf'),
+    ('bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb/d3d3d3d3-d3d3-4d3d-8d3d-d3d3d3d3d3d3.jpg')$$,
+  'Managers read every file that has an attachment row and has passed the scan'
+);
+
+SELECT is_empty(
+  $$SELECT id FROM public.attachments WHERE file_name = 'radiator.png'$$,
+  'Files waiting for the scan are hidden from everyone but their uploader'
+);
+
+SELECT lives_ok(
+  $$INSERT INTO storage.objects (bucket_id, name) VALUES ('complaint-attachments', 'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb/e5e5e5e5-e5e5-4e5e-8e5e-e5e5e5e5e5e5.png')$$,
+  'Managers can upload into any complaint''s folder'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO storage.objects (bucket_id, name) VALUES ('complaint-attachments', 'ffffffff-ffff-4fff-8fff-ffffffffffff/e6e6e6e6-e6e6-4e6e-8e6e-e6e6e6e6e6e6.png')$$,
+  '42501', NULL,
+  'Managers cannot upload into the folder of a complaint that does not exist'
+);
+
+-- Stranger
+SELECT set_config('request.jwt.claims', '{"sub": "44444444-4444-4444-8444-444444444444", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$SELECT name FROM storage.objects WHERE bucket_id = 'complaint-attachments'$$,
+  'Other students cannot read any complaint files'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO storage.objects (bucket_id, name) VALUES ('complaint-attachments', 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa/e7e7e7e7-e7e7-4e7e-8e7e-e7e7e7e7e7e7.png')$$,
+  '42501', NULL,
+  'Other students cannot upload into a complaint''s folder'
+);
+
+-- Signed out
+RESET ROLE;
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT is_empty(
+  $$SELECT name FROM storage.objects WHERE bucket_id = 'complaint-attachments'$$,
+  'Signed-out visitors cannot read any complaint files'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO storage.objects (bucket_id, name) VALUES ('complaint-attachments', 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa/e8e8e8e8-e8e8-4e8e-8e8e-e8e8e8e8e8e8.png')$$,
+  '42501', NULL,
+  'Signed-out visitors cannot upload'
+);
+
+SELECT * FROM finish();
+ROLLBACK;